@@ -4,78 +4,35 @@ import React, { useEffect, useMemo, useState } from "react";
 import { usePathname } from "next/navigation";
 import Link from "next/link";
 import dynamic from "next/dynamic";
+import {
+  loadFactorHoldings,
+  loadFactorList,
+  loadFactorMeta,
+  loadFactorReturns,
+  loadRiskFree,
+  loadStockNames,
+  loadStockSectors,
+} from "@/lib/data";
+import type { HoldingsResp, MetaResp, ReturnsResp, RiskFreeResp, StockNamesResp, StockSectorsResp } from "@/lib/types";
+import { calcMetrics, type MetricOptions } from "@/lib/analytics/metrics";
+import { calcBenchmarkMetrics, defaultBenchmark } from "@/lib/analytics/benchmark";
+import { formatMetric, metricColorClass, type MetricKey } from "@/lib/analytics/metric-columns";
+import { toCum } from "@/lib/analytics/series";
+import { DEFAULT_SECTOR_BENCHMARK, filterBySector, sectorOf } from "@/lib/analytics/sectors";
+import { concentration } from "@/lib/analytics/weights";
+import MetricColumnPicker, { useMetricColumns } from "@/components/MetricColumnPicker";
+import BenchmarkSelect from "@/components/BenchmarkSelect";
+import RollingMetricsPanel from "@/components/RollingMetricsPanel";
+import DrawdownPanel, { type DrawdownSeries } from "@/components/DrawdownPanel";
+import MonthlyReturnGrid from "@/components/MonthlyReturnGrid";
+import DistributionPanel from "@/components/DistributionPanel";
+import SectorPanel, { SectorFilter } from "@/components/SectorPanel";
+import HoldingsDiffPanel, { HoldingsViewToggle, type HoldingsView } from "@/components/HoldingsDiffPanel";
 
 const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
 
-const GH_OWNER = "alfred0630";
-const GH_REPO = "factor-platform-database";
-const GH_BRANCH = "main";
-const RAW_BASE = `https://raw.githubusercontent.com/${GH_OWNER}/${GH_REPO}/${GH_BRANCH}`;
-
-// === 型別定義 ===
-type ReturnsResp = { name?: string; factor?: string; dates: string[]; ret: number[] };
-type MetaResp = Record<string, any>;
-type HoldingsResp = {
-  factor: string;
-  asof: string | null;
-  months: string[];
-  holdings: Record<string, string[]>;
-};
-// 股票名稱對照表型別
-type StockNamesResp = Record<string, string>;
-
-// === 數學計算函式 (復用自首頁) ===
-function toCum(retArr: number[]) {
-  let v = 1;
-  return retArr.map((r) => (v *= 1 + r));
-}
-
-function maxDrawdownFromReturns(ret: number[]) {
-  let peak = 1;
-  let nav = 1;
-  let maxdd = 0;
-  for (const r of ret) {
-    nav *= 1 + r;
-    if (nav > peak) peak = nav;
-    const dd = nav / peak - 1;
-    if (dd < maxdd) maxdd = dd;
-  }
-  return maxdd;
-}
-
-// 計算績效指標
-function calcMetrics(ret: number[], freq = 252) {
-  if (!ret.length) {
-    return { ann_return: 0, ann_vol: 0, sharpe: 0, maxdd: 0 };
-  }
-
-  let nav = 1;
-  for (const r of ret) nav *= 1 + r;
-  const n = ret.length;
-  // 年化報酬 (CAGR)
-  const ann_return = Math.pow(nav, freq / n) - 1;
-
-  // 年化波動率
-  const mean = ret.reduce((a, b) => a + b, 0) / n;
-  const var_ = ret.reduce((a, r) => a + (r - mean) ** 2, 0) / Math.max(1, n - 1);
-  const ann_vol = Math.sqrt(var_ * freq);
-
-  // 夏普比率 (假設 Rf=0)
-  const sharpe = ann_vol === 0 ? 0 : (mean * freq) / ann_vol;
-
-  // 最大回撤
-  const maxdd = maxDrawdownFromReturns(ret);
-
-  return { ann_return, ann_vol, sharpe, maxdd };
-}
-
-async function fetchJson<T>(url: string): Promise<T> {
-  const r = await fetch(url, { cache: "no-store" });
-  if (!r.ok) {
-    throw new Error(`fetch failed`);
-  }
-  return (await r.json()) as T;
-}
+// 因子詳情預設顯示的指標卡片
+const DETAIL_METRIC_KEYS: MetricKey[] = ["cagr", "annVol", "sharpe", "maxdd", "excessCagr", "beta", "alpha", "infoRatio"];
 
 export default function FactorDetailClient({ name }: { name?: string }) {
   const pathname = usePathname();
@@ -96,6 +53,18 @@ export default function FactorDetailClient({ name }: { name?: string }) {
   const [hold, setHold] = useState<HoldingsResp | null>(null);
   const [stockNames, setStockNames] = useState<StockNamesResp>({}); // 儲存股票名稱
   const [month, setMonth] = useState<string>("");
+  const [holdingsView, setHoldingsView] = useState<HoldingsView>("list");
+  // 沒有 data/stock_sectors.json 時不顯示產業配置與篩選
+  const [sectors, setSectors] = useState<StockSectorsResp | null>(null);
+  const [sectorFilter, setSectorFilter] = useState("");
+  const [sectorBench, setSectorBench] = useState("");
+  const [sectorBenchHoldings, setSectorBenchHoldings] = useState<HoldingsResp | null>(null);
+  const [benchOptions, setBenchOptions] = useState<string[]>([]);
+  const [benchmark, setBenchmark] = useState("");
+  const [benchSeries, setBenchSeries] = useState<ReturnsResp | null>(null);
+  // 沒有 data/risk_free.json 時無風險利率視為 0
+  const [rfSeries, setRfSeries] = useState<RiskFreeResp | null>(null);
+  const metricCols = useMetricColumns("factor-detail.metricColumns", DETAIL_METRIC_KEYS);
 
   // 2. 讀取資料
   useEffect(() => {
@@ -104,18 +73,20 @@ export default function FactorDetailClient({ name }: { name?: string }) {
     (async () => {
       try {
         // 同時抓取所有資料，包含 stock_names.json (如果有的話)
-        const [m, r, h, names] = await Promise.all([
-          fetchJson<MetaResp>(`${RAW_BASE}/data/factors/${encodeURIComponent(safeName)}.json`).catch(() => null),
-          fetchJson<ReturnsResp>(`${RAW_BASE}/data/returns/${encodeURIComponent(safeName)}.json`).catch(() => null),
-          fetchJson<HoldingsResp>(`${RAW_BASE}/data/holdings/${encodeURIComponent(safeName)}.json`).catch(() => null),
+        const [m, r, h, names, sec] = await Promise.all([
+          loadFactorMeta(safeName, "選股邏輯").catch(() => null),
+          loadFactorReturns(safeName, "歷史表現").catch(() => null),
+          loadFactorHoldings(safeName, "選股名單").catch(() => null),
           // 嘗試抓取股票名稱對照表，如果沒有該檔案則回傳空物件，不影響主程式
-          fetchJson<StockNamesResp>(`${RAW_BASE}/data/stock_names.json`).catch(() => ({}) as StockNamesResp),
+          loadStockNames("選股名單").catch(() => ({}) as StockNamesResp),
+          loadStockSectors("產業配置").catch(() => null),
         ]);
 
         setMeta(m);
         setRet(r);
         setHold(h);
         setStockNames(names || {});
+        setSectors(sec);
 
         const months = h?.months || [];
         setMonth(months.length ? months[months.length - 1] : "");
@@ -125,16 +96,89 @@ export default function FactorDetailClient({ name }: { name?: string }) {
     })();
   }, [safeName]);
 
+  // 基準清單；預設基準不與本因子相同
+  useEffect(() => {
+    if (!safeName) return;
+
+    (async () => {
+      try {
+        const list = await loadFactorList("歷史表現");
+        setBenchOptions(list);
+        setBenchmark(defaultBenchmark(list.filter((f) => f !== safeName)));
+        setSectorBench(list.includes(DEFAULT_SECTOR_BENCHMARK) && safeName !== DEFAULT_SECTOR_BENCHMARK ? DEFAULT_SECTOR_BENCHMARK : "");
+      } catch {
+        setBenchOptions([]);
+      }
+    })();
+  }, [safeName]);
+
+  useEffect(() => {
+    (async () => {
+      if (!benchmark) {
+        setBenchSeries(null);
+        return;
+      }
+      try {
+        setBenchSeries(await loadFactorReturns(benchmark, "歷史表現"));
+      } catch {
+        setBenchSeries(null);
+      }
+    })();
+  }, [benchmark]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setRfSeries(await loadRiskFree("歷史表現"));
+      } catch {
+        setRfSeries(null);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      if (!sectorBench) {
+        setSectorBenchHoldings(null);
+        return;
+      }
+      try {
+        setSectorBenchHoldings(await loadFactorHoldings(sectorBench, "產業配置"));
+      } catch {
+        setSectorBenchHoldings(null);
+      }
+    })();
+  }, [sectorBench]);
+
+  const metricOptions = useMemo<MetricOptions>(() => ({ rfSeries }), [rfSeries]);
+
   const holdingsList = useMemo(() => {
     if (!hold || !month) return [];
     return hold.holdings?.[month] || [];
   }, [hold, month]);
 
+  // 檔案有提供權重的月份才顯示權重與集中度
+  const monthWeights = useMemo(() => (hold && month ? (hold.weights?.[month] ?? null) : null), [hold, month]);
+  const monthConcentration = useMemo(() => (monthWeights ? concentration(monthWeights) : null), [monthWeights]);
+
+  const shownHoldings = useMemo(() => {
+    const list = sectors ? filterBySector(holdingsList, sectors, sectorFilter) : holdingsList;
+    return monthWeights ? [...list].sort((a, b) => (monthWeights[b] ?? 0) - (monthWeights[a] ?? 0)) : list;
+  }, [holdingsList, sectors, sectorFilter, monthWeights]);
+
   // 3. 計算該因子的績效指標
   const metrics = useMemo(() => {
     if (!ret || !ret.ret || ret.ret.length === 0) return null;
-    return calcMetrics(ret.ret);
-  }, [ret]);
+    return {
+      ...calcMetrics(ret.dates, ret.ret, metricOptions),
+      ...calcBenchmarkMetrics(ret.dates, ret.ret, benchSeries, metricOptions),
+    };
+  }, [ret, benchSeries, metricOptions]);
+
+  const drawdownSeries = useMemo<DrawdownSeries[]>(
+    () => (ret?.dates?.length ? [{ name: safeName, label: safeName, dates: ret.dates, ret: ret.ret }] : []),
+    [ret, safeName]
+  );
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans">
@@ -199,35 +243,25 @@ export default function FactorDetailClient({ name }: { name?: string }) {
 
         {/* Returns Chart Section (歷史表現) */}
         <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
-          <h2 className="text-lg font-bold text-slate-800 mb-4">歷史表現（累積報酬）</h2>
-          
-          {/* ✅ 新增：績效數據卡片 (Grid 佈局) */}
+          <div className="flex items-center justify-between gap-3 mb-4">
+            <h2 className="text-lg font-bold text-slate-800">歷史表現（累積報酬）</h2>
+            <div className="flex items-center gap-3">
+              <BenchmarkSelect options={benchOptions} value={benchmark} onChange={setBenchmark} />
+              <MetricColumnPicker selected={metricCols.keys} onChange={metricCols.setKeys} defaults={DETAIL_METRIC_KEYS} />
+            </div>
+          </div>
+
+          {/* 績效數據卡片 */}
           {metrics && (
             <div className="grid grid-cols-2 sm:grid-cols-4 gap-4 mb-6">
-              <div className="p-4 rounded-xl bg-slate-50 border border-slate-100 text-center">
-                <div className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">年化報酬</div>
-                <div className={`text-xl font-extrabold ${metrics.ann_return >= 0 ? "text-emerald-600" : "text-rose-600"}`}>
-                  {(metrics.ann_return * 100).toFixed(2)}%
-                </div>
-              </div>
-              <div className="p-4 rounded-xl bg-slate-50 border border-slate-100 text-center">
-                <div className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">年化波動</div>
-                <div className="text-xl font-extrabold text-slate-700">
-                  {(metrics.ann_vol * 100).toFixed(2)}%
-                </div>
-              </div>
-              <div className="p-4 rounded-xl bg-slate-50 border border-slate-100 text-center">
-                <div className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">夏普比率</div>
-                <div className="text-xl font-extrabold text-slate-700">
-                  {metrics.sharpe.toFixed(2)}
-                </div>
-              </div>
-              <div className="p-4 rounded-xl bg-slate-50 border border-slate-100 text-center">
-                <div className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">最大回撤</div>
-                <div className="text-xl font-extrabold text-rose-600">
-                  {(metrics.maxdd * 100).toFixed(2)}%
+              {metricCols.columns.map((c) => (
+                <div key={c.key} className="p-4 rounded-xl bg-slate-50 border border-slate-100 text-center" title={c.hint}>
+                  <div className="text-xs text-slate-500 font-bold uppercase tracking-wider mb-1">{c.label}</div>
+                  <div className={`text-xl font-extrabold ${metricColorClass(c.tone, metrics[c.key])}`}>
+                    {formatMetric(c.format, metrics[c.key])}
+                  </div>
                 </div>
-              </div>
+              ))}
             </div>
           )}
 
@@ -259,13 +293,38 @@ export default function FactorDetailClient({ name }: { name?: string }) {
               />
             </div>
           )}
+
+          {ret?.dates?.length ? (
+            <div className="mt-6 pt-6 border-t border-slate-100">
+              <h3 className="text-base font-bold text-slate-800 mb-2">水下曲線（距前高跌幅）</h3>
+              <DrawdownPanel series={drawdownSeries} />
+            </div>
+          ) : null}
         </section>
 
+        {/* Monthly Section (月報酬表) */}
+        {ret?.dates?.length ? (
+          <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+            <h2 className="text-lg font-bold text-slate-800 mb-1">月報酬表</h2>
+            <p className="text-sm text-slate-500 mb-4">由日報酬連乘；最後一年為 YTD</p>
+            <MonthlyReturnGrid name={safeName} ret={ret} bench={benchSeries} benchLabel={benchmark} />
+          </section>
+        ) : null}
+
+        {/* Rolling Section (滾動視窗) */}
+        {ret?.dates?.length ? <RollingMetricsPanel ret={ret} bench={benchSeries} benchLabel={benchmark} metricOptions={metricOptions} /> : null}
+
+        {/* Distribution Section (報酬分配) */}
+        {ret?.dates?.length ? (
+          <DistributionPanel name={safeName} ret={ret} bench={benchSeries} benchLabel={benchmark} />
+        ) : null}
+
         {/* Holdings Section (持股名單) */}
         <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
           <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
             <h2 className="text-lg font-bold text-slate-800">選股名單（可回看）</h2>
             <div className="flex items-center gap-2">
+              {hold && <HoldingsViewToggle value={holdingsView} onChange={setHoldingsView} />}
               <span className="text-xs font-bold uppercase text-slate-400 tracking-wider">月份</span>
               <select
                 className="rounded-lg border-slate-200 text-sm font-medium focus:border-blue-500 focus:ring-blue-500 text-slate-700 bg-slate-50"
@@ -286,21 +345,39 @@ export default function FactorDetailClient({ name }: { name?: string }) {
             <div className="text-slate-400">找不到 holdings/{safeName}.json（指數或尚未匯出）</div>
           ) : (
             <>
-              <div className="text-xs text-slate-500 mb-4 pb-2 border-b border-slate-100">
-                asof: <span className="font-mono font-medium text-slate-700">{hold.asof ?? "-"}</span>
-                　|　本月持股數：<span className="font-mono font-medium text-slate-700">{holdingsList.length}</span>
+              <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-slate-500 mb-4 pb-2 border-b border-slate-100">
+                <div>
+                  asof: <span className="font-mono font-medium text-slate-700">{hold.asof ?? "-"}</span>
+                  　|　本月持股數：<span className="font-mono font-medium text-slate-700">{holdingsList.length}</span>
+                  {shownHoldings.length !== holdingsList.length && <>（顯示 {shownHoldings.length} 檔）</>}
+                  {monthConcentration && (
+                    <>
+                      　|　前十大權重：
+                      <span className="font-mono font-medium text-slate-700">{(monthConcentration.top10 * 100).toFixed(1)}%</span>
+                      　HHI：<span className="font-mono font-medium text-slate-700">{monthConcentration.hhi.toFixed(3)}</span>
+                      　有效檔數：
+                      <span className="font-mono font-medium text-slate-700">{monthConcentration.effectiveN.toFixed(1)}</span>
+                    </>
+                  )}
+                </div>
+                {sectors && holdingsView === "list" && holdingsList.length > 0 && (
+                  <SectorFilter tickers={holdingsList} sectors={sectors} value={sectorFilter} onChange={setSectorFilter} />
+                )}
               </div>
 
-              {holdingsList.length === 0 ? (
+              {holdingsView === "diff" && month ? (
+                <HoldingsDiffPanel holdings={hold} month={month} stockNames={stockNames} />
+              ) : holdingsList.length === 0 ? (
                 <div className="text-slate-400">此月份無持股（或資料缺漏）</div>
               ) : (
                 // ✅ 修改：更整齊的 Grid 佈局，並顯示公司名稱
                 <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 gap-3">
-                  {holdingsList.map((ticker) => {
+                  {shownHoldings.map((ticker) => {
                     const stockName = stockNames[ticker] || "";
                     return (
-                      <div
+                      <Link
                         key={ticker}
+                        href={`/stock/${encodeURIComponent(ticker)}`}
                         className="flex flex-col items-center justify-center rounded-lg bg-slate-50 border border-slate-200 p-2 text-center hover:bg-blue-50 hover:border-blue-200 transition-colors"
                       >
                         <span className="text-lg font-bold text-slate-800 font-mono tracking-tight">
@@ -312,7 +389,13 @@ export default function FactorDetailClient({ name }: { name?: string }) {
                             {stockName}
                           </span>
                         )}
-                      </div>
+                        {sectors && <span className="text-[10px] text-slate-400 mt-0.5">{sectorOf(ticker, sectors)}</span>}
+                        {monthWeights && (
+                          <span className="text-xs font-mono font-bold text-blue-600 mt-0.5">
+                            {((monthWeights[ticker] ?? 0) * 100).toFixed(2)}%
+                          </span>
+                        )}
+                      </Link>
                     );
                   })}
                 </div>
@@ -320,6 +403,22 @@ export default function FactorDetailClient({ name }: { name?: string }) {
             </>
           )}
         </section>
+
+        {/* Sector Section (產業配置) */}
+        {hold && sectors && (
+          <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+            <h2 className="text-lg font-bold text-slate-800 mb-4">產業配置</h2>
+            <SectorPanel
+              holdings={hold}
+              sectors={sectors}
+              month={month}
+              benchOptions={benchOptions.filter((f) => f !== safeName)}
+              benchName={sectorBench}
+              onBenchChange={setSectorBench}
+              bench={sectorBenchHoldings}
+            />
+          </section>
+        )}
       </main>
     </div>
   );
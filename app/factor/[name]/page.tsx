@@ -1,27 +1,17 @@
 import React from "react";
 import FactorDetailClient from "./FactorDetailClient";
-
-const GH_OWNER = "alfred0630";
-const GH_REPO = "factor-platform-database";
-const GH_BRANCH = "main";
-const RAW_BASE = `https://raw.githubusercontent.com/${GH_OWNER}/${GH_REPO}/${GH_BRANCH}`;
-
-type ManifestResp = { factors: string[] };
+import { loadFactorList } from "@/lib/data";
+import { enableSnapshotOnServer } from "@/lib/data-source.server";
 
 // ✅ 靜態匯出必須提供所有 [name]
 export async function generateStaticParams() {
-  const url = `${RAW_BASE}/data/manifest.json`;
+  const snapshot = enableSnapshotOnServer();
   try {
-    const res = await fetch(url);
-    if (!res.ok) return [];
-
-    const m = (await res.json()) as ManifestResp;
-    const factors = (m?.factors || [])
-      .filter((x) => typeof x === "string" && x.trim().length > 0)
-      .map((name) => ({ name }));
-
-    return factors;
+    const factors = await loadFactorList();
+    return factors.map((name) => ({ name }));
   } catch (e) {
+    // 快照模式下少了 manifest 代表快照不完整，直接讓 build 失敗
+    if (snapshot) throw e;
     console.error("Generate params failed:", e);
     return [];
   }
@@ -1,5 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
+import DataDiagnostics from "@/components/DataDiagnostics";
+import CommandPalette from "@/components/CommandPalette";
 import "./globals.css";
 
 const geistSans = Geist({
@@ -28,6 +30,8 @@ export default function RootLayout({
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
         {children}
+        <DataDiagnostics />
+        <CommandPalette />
       </body>
     </html>
   );
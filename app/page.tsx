@@ -3,53 +3,58 @@
 import React, { useEffect, useMemo, useState } from "react";
 import dynamic from "next/dynamic";
 import Link from "next/link";
+import {
+  loadFactorHoldings,
+  loadFactorList,
+  loadFactorReturns,
+  loadGlobalWave,
+  loadHeatmap,
+  loadRiskFree,
+  loadStrategyCatalog,
+  loadStrategyReturns,
+} from "@/lib/data";
+import { recordLoad } from "@/lib/diagnostics";
+import type {
+  GlobalWaveResp,
+  HeatmapResp,
+  HoldingsResp,
+  RecentTable,
+  ReturnsResp,
+  RiskFreeResp,
+  StrategyManifestEntry,
+} from "@/lib/types";
+import { getFactorLabel } from "@/lib/factor-labels";
+import { validateRecentTable } from "@/lib/validate";
+import { calcMetrics, type MetricOptions, type PerformanceMetrics } from "@/lib/analytics/metrics";
+import { calcBenchmarkMetrics, defaultBenchmark, type BenchmarkMetrics } from "@/lib/analytics/benchmark";
+import { calcSignificance } from "@/lib/analytics/significance";
+import { monthlyTurnover, netOfCostReturns } from "@/lib/analytics/turnover";
+import { formatMetric, metricToneClass, SIGNIFICANCE_COLUMNS } from "@/lib/analytics/metric-columns";
+import { clipReturns, parseDate, toCum, type LabeledReturns } from "@/lib/analytics/series";
+import MetricColumnPicker, { useMetricColumns } from "@/components/MetricColumnPicker";
+import BenchmarkSelect from "@/components/BenchmarkSelect";
+import DrawdownPanel from "@/components/DrawdownPanel";
+import CorrelationExplorer from "@/components/CorrelationExplorer";
+import PortfolioBuilder from "@/components/PortfolioBuilder";
+import OptimizerPanel from "@/components/OptimizerPanel";
+import EventStudyPanel from "@/components/EventStudyPanel";
+import RegimePanel from "@/components/RegimePanel";
+import CostModelPicker, { useCostModel } from "@/components/CostModelPicker";
+import TurnoverPanel, { type TurnoverSeries } from "@/components/TurnoverPanel";
+import { openCommandPalette } from "@/components/CommandPalette";
+import { regimePeriods } from "@/lib/analytics/regime";
+import { blendReturns, decodePortfolio, validatePortfolios, type PortfolioSpec } from "@/lib/analytics/portfolio";
+import { copyText } from "@/lib/clipboard";
+import { usePersistentState } from "@/lib/hooks/use-persistent-state";
+import { useDebouncedValue } from "@/lib/hooks/use-debounced-value";
 
 const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
 
-/** =========================
- * GitHub data source config
- * ========================= */
-const GH_OWNER = "alfred0630";
-const GH_REPO = "factor-platform-database";
-const GH_BRANCH = "main";
-
-// raw file base (fast, CORS ok)
-const RAW_BASE = `https://raw.githubusercontent.com/${GH_OWNER}/${GH_REPO}/${GH_BRANCH}`;
-
-type ReturnsResp = {
-  name?: string;
-  factor?: string;
-  dates: string[];
-  ret: number[];
-};
-
-type MetricRow = {
-  factor: string;
-  period_return: number;
-  ann_return: number;
-  ann_vol: number;
-  sharpe: number | null;
-  maxdd: number;
-};
+/** net：扣除交易成本後的列（緊接在原本的列下面） */
+type MetricRow = { factor: string; label: string; portfolio: boolean; net: boolean } & PerformanceMetrics & BenchmarkMetrics;
 
-type GlobalWaveResp = {
-  factor: string;
-  summary: {
-    trough: { n_events: number; n_6m: number; n_12m: number; avg_6m: number | null; avg_12m: number | null };
-    peak: { n_events: number; n_6m: number; n_12m: number; avg_6m: number | null; avg_12m: number | null };
-  };
-  events?: { type: "trough" | "peak"; date: string; r_6m: number | null; r_12m: number | null }[];
-};
-
-type RecentTable = {
-  dates: string[];
-  rows: Record<string, (number | null)[]>;
-};
-
-function toCum(retArr: number[]) {
-  let v = 1;
-  return retArr.map((r) => (v *= 1 + r));
-}
+const NO_PORTFOLIOS: PortfolioSpec[] = [];
+const PORTFOLIO_PREFIX = "portfolio:";
 
 function fmtPct(x: number | null | undefined) {
   if (x === null || x === undefined || Number.isNaN(x as any)) return "-";
@@ -76,27 +81,6 @@ const FACTOR_COLORS: Record<string, string> = {
   Top200: "#2563eb",
 };
 
-// === 因子中文標籤 ===
-const FACTOR_LABELS: Record<string, string> = {
-  EPS_growth: "EPS 動能",
-  High_yield: "高股息",
-  High_yoy: "營收成長",
-  Low_beta: "低 Beta",
-  Margin_growth: "利潤率成長",
-  Momentum_01: "價格動能1m",
-  Momentum_03: "價格動能3m",
-  Momentum_06: "價格動能6m",
-  PB_low: "低PB",
-  PE_low: "低PE",
-  Top200: "市值前 200",
-  TWA00: "加權指數",
-};
-
-// === 取得因子標籤的輔助函數 ===
-function getFactorLabel(factorName: string): string {
-  return FACTOR_LABELS[factorName] || factorName;
-}
-
 function makeDiscreteColorscale(colorList: string[]) {
   const n = colorList.length;
   const cs: [number, string][] = [];
@@ -109,98 +93,38 @@ function makeDiscreteColorscale(colorList: string[]) {
   return cs;
 }
 
-function parseDate(s: string) {
-  const d = new Date(s);
-  return Number.isNaN(d.getTime()) ? null : d;
-}
-
-function clipByRange(d: ReturnsResp, start: string, end: string): ReturnsResp {
-  const s = parseDate(start);
-  const e = parseDate(end);
-  if (!s || !e) return d;
-
-  const outDates: string[] = [];
-  const outRet: number[] = [];
-  for (let i = 0; i < d.dates.length; i++) {
-    const di = parseDate(d.dates[i]);
-    if (!di) continue;
-    if (di >= s && di <= e) {
-      outDates.push(d.dates[i]);
-      outRet.push(d.ret[i]);
-    }
-  }
-  return { ...d, dates: outDates, ret: outRet };
-}
-
-function maxDrawdownFromReturns(ret: number[]) {
-  let peak = 1;
-  let nav = 1;
-  let maxdd = 0;
-  for (const r of ret) {
-    nav *= 1 + r;
-    if (nav > peak) peak = nav;
-    const dd = nav / peak - 1;
-    if (dd < maxdd) maxdd = dd;
-  }
-  return maxdd;
-}
-function calcMetricsFromDailyRet(factor: string, ret: number[], rfAnnual: number, freq = 252): MetricRow {
-  if (!ret.length) {
-    return { factor, period_return: 0, ann_return: 0, ann_vol: 0, sharpe: null, maxdd: 0 };
-  }
-
-  let nav = 1;
-  for (const r of ret) nav *= 1 + r;
-
-  const period_return = nav - 1;
-  const n = ret.length;
-  const ann_return = Math.pow(nav, freq / n) - 1;
-
-  const mean = ret.reduce((a, b) => a + b, 0) / n;
-  const var_ = ret.reduce((a, r) => a + (r - mean) ** 2, 0) / Math.max(1, n - 1);
-  const ann_vol = Math.sqrt(var_ * freq);
-
-  const rfDaily = rfAnnual / freq;
-  const ex = ret.map((r) => r - rfDaily);
-  const exMean = ex.reduce((a, b) => a + b, 0) / n;
-  const exVar = ex.reduce((a, r) => a + (r - exMean) ** 2, 0) / Math.max(1, n - 1);
-  const exVol = Math.sqrt(exVar * freq);
-
-  const sharpe = exVol === 0 ? null : (exMean * freq) / exVol;
-  const maxdd = maxDrawdownFromReturns(ret);
-
-  return { factor, period_return, ann_return, ann_vol, sharpe, maxdd };
-}
-
-async function fetchJson<T>(url: string): Promise<T> {
-  const r = await fetch(url, { cache: "no-store" });
-  if (!r.ok) {
-    const t = await r.text().catch(() => "");
-    throw new Error(`fetch failed ${r.status}: ${url}\n${t.slice(0, 200)}`);
-  }
-  return (await r.json()) as T;
-}
-
-type ManifestResp = { factors: string[] };
-
-async function listFactorsFromGithub(): Promise<string[]> {
-  const url = `${RAW_BASE}/data/manifest.json`;
-  const m = await fetchJson<ManifestResp>(url);
-  const names = (m?.factors || []).filter((x) => typeof x === "string" && x.trim().length > 0);
-  names.sort((a, b) => a.localeCompare(b));
-  return names;
-}
-
 export default function Home() {
   const [factors, setFactors] = useState<string[]>([]);
   const [selected, setSelected] = useState<string[]>(["Top200"]);
   const [start, setStart] = useState("2003-01-01");
   const [end, setEnd] = useState("2026-12-31");
   const [rf, setRf] = useState(0.0);
+  // data/risk_free.json；讀到時預設使用，取消勾選則改用上面的固定利率
+  const [rfSeries, setRfSeries] = useState<RiskFreeResp | null>(null);
+  const [useRfSeries, setUseRfSeries] = useState(true);
 
   const [series, setSeries] = useState<Record<string, ReturnsResp>>({});
-  const [metrics, setMetrics] = useState<MetricRow[]>([]);
-  const [heatmap, setHeatmap] = useState<any>(null);
+  const [metricBenchmark, setMetricBenchmark] = useState("");
+  const [metricBenchSeries, setMetricBenchSeries] = useState<ReturnsResp | null>(null);
+  const metricCols = useMetricColumns("home.metricColumns");
+
+  // 多因子組合：定義存在 localStorage，顯示與否只在本次瀏覽
+  const [showSignificance, setShowSignificance] = usePersistentState("home.showSignificance", false);
+  const [costModel, setCostModel] = useCostModel();
+  const [holdingsMap, setHoldingsMap] = useState<Record<string, HoldingsResp>>({});
+  const [portfolios, setPortfolios] = usePersistentState<PortfolioSpec[]>(
+    "home.portfolios",
+    NO_PORTFOLIOS,
+    validatePortfolios
+  );
+  const [shownPortfolios, setShownPortfolios] = useState<string[]>([]);
+  const [portfolioSeries, setPortfolioSeries] = useState<Record<string, ReturnsResp>>({});
+
+  // 相關係數矩陣可額外加入策略
+  const [strategyCatalog, setStrategyCatalog] = useState<StrategyManifestEntry[]>([]);
+  const [corrStrategies, setCorrStrategies] = useState<string[]>([]);
+  const [strategySeries, setStrategySeries] = useState<Record<string, ReturnsResp>>({});
+  const [heatmap, setHeatmap] = useState<HeatmapResp | null>(null);
 
   // ===== 近 X 個交易日詳細表 =====
   const [recentTradingDays, setRecentTradingDays] = useState(20);
@@ -221,18 +145,20 @@ export default function Home() {
   const [gwHorizon, setGwHorizon] = useState<6 | 12>(6);
   const [gwBenchmark, setGwBenchmark] = useState<string>("Top200");
   const [benchSeries, setBenchSeries] = useState<ReturnsResp | null>(null);
+  const [gwReturns, setGwReturns] = useState<Record<string, ReturnsResp>>({});
 
   // Load Factor List
   useEffect(() => {
     (async () => {
       try {
-        const list = await listFactorsFromGithub();
+        const list = await loadFactorList("因子清單");
         setFactors(list);
         if (list.length) {
           if (!selected.length || !list.includes(selected[0])) setSelected([list[0]]);
           const defaults = ["Top200", "PE_low", "PB_low"].filter((x) => list.includes(x));
           setGwSelected(defaults.length ? defaults : list.slice(0, Math.min(3, list.length)));
           setGwBenchmark(list.includes("Top200") ? "Top200" : list[0]);
+          setMetricBenchmark(defaultBenchmark(list));
         }
       } catch (e) {
         setFactors([]);
@@ -240,46 +166,233 @@ export default function Home() {
     })();
   }, []);
 
-  // Load Returns & Metrics
+  // Load Returns
   useEffect(() => {
     (async () => {
       if (!selected.length) {
         setSeries({});
-        setMetrics([]);
         return;
       }
       try {
         const pairs = await Promise.all(
           selected.map(async (f) => {
-            const url = `${RAW_BASE}/data/returns/${encodeURIComponent(f)}.json`;
-            const d = await fetchJson<ReturnsResp>(url);
-            const factorName = d.factor || d.name || f;
-            const normalized: ReturnsResp = { factor: factorName, dates: d.dates || [], ret: d.ret || [] };
-            const clipped = clipByRange(normalized, start, end);
+            const normalized = await loadFactorReturns(f, "累積報酬走勢");
+            const clipped = clipReturns(normalized, start, end);
             return [f, clipped] as const;
           })
         );
         const obj: Record<string, ReturnsResp> = {};
         for (const [f, d] of pairs) obj[f] = d;
         setSeries(obj);
-
-        const rows: MetricRow[] = selected.map((f) => {
-          const d = obj[f];
-          return calcMetricsFromDailyRet(f, d?.ret || [], rf, 252);
-        });
-        setMetrics(rows);
       } catch (e) {
         setSeries({});
-        setMetrics([]);
       }
     })();
-  }, [selected, start, end, rf]);
+  }, [selected, start, end]);
+
+  // Load 績效表的基準
+  useEffect(() => {
+    (async () => {
+      if (!metricBenchmark) {
+        setMetricBenchSeries(null);
+        return;
+      }
+      try {
+        setMetricBenchSeries(await loadFactorReturns(metricBenchmark, "績效指標分析"));
+      } catch {
+        setMetricBenchSeries(null);
+      }
+    })();
+  }, [metricBenchmark]);
+
+  // 分享連結 ?portfolio=... 匯入後從網址移除，避免重新整理時重複加入
+  useEffect(() => {
+    const params = new URLSearchParams(window.location.search);
+    const raw = params.get("portfolio");
+    if (!raw) return;
+    const spec = decodePortfolio(raw);
+    if (spec) {
+      setPortfolios((prev) => [...prev, spec]);
+      setShownPortfolios((prev) => [...prev, spec.id]);
+    }
+    params.delete("portfolio");
+    const qs = params.toString();
+    window.history.replaceState(null, "", `${window.location.pathname}${qs ? `?${qs}` : ""}`);
+  }, [setPortfolios]);
+
+  // Load 組合成分並模擬組合報酬（成分先裁到區間，買進持有才會從區間起點開始）
+  useEffect(() => {
+    (async () => {
+      const active = portfolios.filter((p) => shownPortfolios.includes(p.id));
+      if (!active.length) {
+        setPortfolioSeries({});
+        return;
+      }
+      // 個別成分讀不到只略過該成分，blendReturns 會以其餘成分重新正規化權重
+      const names = Array.from(new Set(active.flatMap((p) => Object.keys(p.weights))));
+      const pairs = await Promise.all(
+        names.map(async (f) => {
+          try {
+            return [f, clipReturns(await loadFactorReturns(f, "多因子組合"), start, end)] as const;
+          } catch {
+            return [f, null] as const;
+          }
+        })
+      );
+      const components: Record<string, ReturnsResp> = {};
+      for (const [f, d] of pairs) if (d) components[f] = d;
+
+      const obj: Record<string, ReturnsResp> = {};
+      for (const p of active) obj[p.id] = blendReturns(components, p);
+      setPortfolioSeries(obj);
+    })();
+  }, [portfolios, shownPortfolios, start, end]);
+
+  // 圖表、績效表、回撤、相關係數共用：已選因子 + 顯示中的組合
+  const displaySeries = useMemo<LabeledReturns[]>(() => {
+    const factorRows = selected
+      .filter((f) => series[f]?.dates?.length)
+      .map((f) => ({ name: f, label: getFactorLabel(f), dates: series[f].dates, ret: series[f].ret }));
+    const portfolioRows = portfolios
+      .filter((p) => shownPortfolios.includes(p.id) && portfolioSeries[p.id]?.dates?.length)
+      .map((p) => ({
+        name: `${PORTFOLIO_PREFIX}${p.id}`,
+        label: p.name,
+        dates: portfolioSeries[p.id].dates,
+        ret: portfolioSeries[p.id].ret,
+      }));
+    return [...factorRows, ...portfolioRows];
+  }, [selected, series, portfolios, shownPortfolios, portfolioSeries]);
+
+  // 輸入欄位單位為 %
+  const metricOptions = useMemo<MetricOptions>(
+    () => ({ rfAnnual: rf / 100, rfSeries: useRfSeries ? rfSeries : null }),
+    [rf, rfSeries, useRfSeries]
+  );
+
+  // 換手率：只有因子有持股名單，組合沒有
+  const turnoverSeries = useMemo<TurnoverSeries[]>(
+    () =>
+      displaySeries
+        .filter((d) => holdingsMap[d.name])
+        .map((d) => ({
+          name: d.name,
+          label: d.label,
+          points: monthlyTurnover(holdingsMap[d.name]).filter(
+            (p) => p.month >= start.slice(0, 7) && p.month <= end.slice(0, 7)
+          ),
+        })),
+    [displaySeries, holdingsMap, start, end]
+  );
+
+  // 績效表的列：開啟交易成本時，有持股資料的因子多一列淨值
+  const tableSeries = useMemo(() => {
+    const points = new Map(turnoverSeries.map((t) => [t.name, t.points]));
+    return displaySeries.flatMap((d) => {
+      const p = points.get(d.name);
+      const gross = { ...d, net: false };
+      if (!costModel.enabled || !p?.length) return [gross];
+      return [gross, { ...d, ret: netOfCostReturns(d, p, costModel).ret, net: true }];
+    });
+  }, [displaySeries, turnoverSeries, costModel]);
+
+  const metrics = useMemo<MetricRow[]>(() => {
+    return tableSeries.map((d) => ({
+      factor: d.name,
+      label: d.label,
+      portfolio: d.name.startsWith(PORTFOLIO_PREFIX),
+      net: d.net,
+      ...calcMetrics(d.dates, d.ret, metricOptions),
+      ...calcBenchmarkMetrics(d.dates, d.ret, metricBenchSeries, metricOptions),
+    }));
+  }, [tableSeries, metricOptions, metricBenchSeries]);
+
+  // 顯著性：DSR 的比較次數與 Sharpe 分散只算原始序列，扣成本的列套用同一門檻
+  // bootstrap 較慢，無風險利率輸入停止後才重算
+  const settledRf = useDebouncedValue(rf);
+  const significanceOptions = useMemo<MetricOptions>(
+    () => ({ rfAnnual: settledRf / 100, rfSeries: useRfSeries ? rfSeries : null }),
+    [settledRf, rfSeries, useRfSeries]
+  );
+  const significance = useMemo(
+    () =>
+      showSignificance
+        ? calcSignificance(tableSeries, { ...significanceOptions, trials: displaySeries.length })
+        : null,
+    [showSignificance, tableSeries, displaySeries.length, significanceOptions]
+  );
+  const significanceCols = significance ? SIGNIFICANCE_COLUMNS : [];
+
+  // Load 已選因子的持股名單（換手率圖；開啟交易成本時另算淨值列）
+  useEffect(() => {
+    const missing = selected.filter((f) => !holdingsMap[f]);
+    if (!missing.length) return;
+    (async () => {
+      const pairs = await Promise.all(
+        missing.map(async (f): Promise<[string, HoldingsResp] | null> => {
+          try {
+            return [f, await loadFactorHoldings(f, "換手率")];
+          } catch {
+            return null;
+          }
+        })
+      );
+      const loaded = pairs.filter((p): p is [string, HoldingsResp] => p !== null);
+      if (loaded.length) setHoldingsMap((prev) => ({ ...prev, ...Object.fromEntries(loaded) }));
+    })();
+  }, [selected, holdingsMap]);
+
+  // Load 無風險利率序列（選填，沒有就用固定利率）
+  useEffect(() => {
+    (async () => {
+      try {
+        setRfSeries(await loadRiskFree("無風險利率"));
+      } catch {
+        setRfSeries(null);
+      }
+    })();
+  }, []);
+
+  // Load 策略清單（相關係數矩陣用，讀不到就只比較因子）
+  useEffect(() => {
+    (async () => {
+      try {
+        const { strategies } = await loadStrategyCatalog("相關係數矩陣");
+        setStrategyCatalog(strategies.filter((x) => x.has_returns));
+      } catch {
+        setStrategyCatalog([]);
+      }
+    })();
+  }, []);
+
+  // Load 選入矩陣的策略報酬（個別讀不到只略過該策略，失敗已記在資料診斷；較慢的舊請求不覆蓋新結果）
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      const pairs = await Promise.all(
+        corrStrategies.map(async (name) => {
+          try {
+            return [name, await loadStrategyReturns(name, "相關係數矩陣")] as const;
+          } catch {
+            return [name, null] as const;
+          }
+        })
+      );
+      if (cancelled) return;
+      const obj: Record<string, ReturnsResp> = {};
+      for (const [name, d] of pairs) if (d) obj[name] = d;
+      setStrategySeries(obj);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [corrStrategies]);
 
   // Load Heatmap
   useEffect(() => {
     (async () => {
       try {
-        const d = await fetchJson<any>(`${RAW_BASE}/data/heatmap/heatmap_12m.json`);
+        const d = await loadHeatmap("因子表現熱力圖");
         setHeatmap(d);
       } catch (e) {
         setHeatmap(null);
@@ -299,12 +412,7 @@ export default function Home() {
       try {
         const pairs = await Promise.all(
           factors.map(async (f) => {
-            const d = await fetchJson<ReturnsResp>(`${RAW_BASE}/data/returns/${encodeURIComponent(f)}.json`);
-            const normalized: ReturnsResp = {
-              factor: d.factor || d.name || f,
-              dates: d.dates || [],
-              ret: d.ret || [],
-            };
+            const normalized = await loadFactorReturns(f, "近 N 日報酬表");
             return [f, normalized] as const;
           })
         );
@@ -338,10 +446,9 @@ export default function Home() {
           });
         }
 
-        setRecent20Table({
-          dates: lastNDates,
-          rows,
-        });
+        const checked = validateRecentTable({ dates: lastNDates, rows });
+        recordLoad("derived/recent_daily_table", checked.issues, "近 N 日報酬表");
+        setRecent20Table(checked.value);
       } catch (e) {
         setRecent20Table(null);
       } finally {
@@ -362,12 +469,7 @@ export default function Home() {
       try {
         const pairs = await Promise.all(
           factors.map(async (f) => {
-            const d = await fetchJson<ReturnsResp>(`${RAW_BASE}/data/returns/${encodeURIComponent(f)}.json`);
-            const normalized: ReturnsResp = {
-              factor: d.factor || d.name || f,
-              dates: d.dates || [],
-              ret: d.ret || [],
-            };
+            const normalized = await loadFactorReturns(f, "近 N 日累積表");
             return [f, normalized] as const;
           })
         );
@@ -405,10 +507,9 @@ export default function Home() {
           });
         }
 
-        setRecentCumTable({
-          dates: lastNDates,
-          rows,
-        });
+        const checked = validateRecentTable({ dates: lastNDates, rows });
+        recordLoad("derived/recent_cum_table", checked.issues, "近 N 日累積表");
+        setRecentCumTable(checked.value);
       } catch (e) {
         setRecentCumTable(null);
       } finally {
@@ -428,7 +529,7 @@ export default function Home() {
       try {
         const pairs = await Promise.all(
           gwSelected.map(async (f) => {
-            const d = await fetchJson<GlobalWaveResp>(`${RAW_BASE}/data/global_wave/${encodeURIComponent(f)}.json`);
+            const d = await loadGlobalWave(f, "Global Wave");
             return [f, d] as const;
           })
         );
@@ -443,6 +544,22 @@ export default function Home() {
     })();
   }, [gwSelected]);
 
+  // Load GW 因子的完整報酬（景氣區間表現用）
+  useEffect(() => {
+    (async () => {
+      try {
+        const pairs = await Promise.all(
+          gwSelected.map(async (f) => [f, await loadFactorReturns(f, "景氣區間表現")] as const)
+        );
+        const obj: Record<string, ReturnsResp> = {};
+        for (const [f, d] of pairs) obj[f] = d;
+        setGwReturns(obj);
+      } catch {
+        setGwReturns({});
+      }
+    })();
+  }, [gwSelected]);
+
   // Load GW Benchmark
   useEffect(() => {
     (async () => {
@@ -451,13 +568,12 @@ export default function Home() {
         return;
       }
       try {
-        const d = await fetchJson<ReturnsResp>(`${RAW_BASE}/data/returns/${encodeURIComponent(gwBenchmark)}.json`);
-        const normalized: ReturnsResp = { factor: d.factor || d.name || gwBenchmark, dates: d.dates || [], ret: d.ret || [] };
+        const normalized = await loadFactorReturns(gwBenchmark, "訊號歷史回測");
 
         // ▼▼▼ 修改開始 ▼▼▼
-        // 使用 clipByRange 強制將數據裁剪到 2003-01-01 之後
+        // 使用 clipReturns 強制將數據裁剪到 2003-01-01 之後
         // 你也可以把 "2003-01-01" 換成變數 start，這樣就會跟著上方日期選擇器連動
-        const clipped = clipByRange(normalized, "2003-01-01", "2029-12-31");
+        const clipped = clipReturns(normalized, "2003-01-01", "2029-12-31");
 
         setBenchSeries(clipped);
         // ▲▲▲ 修改結束 (原本是 setBenchSeries(normalized)) ▲▲▲
@@ -483,19 +599,6 @@ export default function Home() {
     else setGwSelected(factors);
   };
 
-  const copyTextToClipboard = async (text: string) => {
-    try {
-      await navigator.clipboard.writeText(text);
-    } catch (e) {
-      const textarea = document.createElement("textarea");
-      textarea.value = text;
-      document.body.appendChild(textarea);
-      textarea.select();
-      document.execCommand("copy");
-      document.body.removeChild(textarea);
-    }
-  };
-
   const orderedTableFactors = useMemo(() => {
     const priority = ["TWA00", "Top200"];
     const existingPriority = priority.filter((f) => factors.includes(f));
@@ -538,15 +641,34 @@ export default function Home() {
   };
 
   // --- Memos ---
-  const chartData = useMemo(() => {
-    return selected
-      .map((f) => {
-        const d = series[f];
-        if (!d || !d.dates?.length) return null;
-        return { x: d.dates, y: toCum(d.ret || []), type: "scatter", mode: "lines", name: getFactorLabel(f) };
-      })
-      .filter(Boolean);
-  }, [series, selected]);
+  const chartData = useMemo(
+    () =>
+      displaySeries.map((d) => ({
+        x: d.dates,
+        y: toCum(d.ret),
+        type: "scatter",
+        mode: "lines",
+        name: d.label,
+        ...(d.name.startsWith(PORTFOLIO_PREFIX) ? { line: { width: 3, dash: "dot" } } : {}),
+      })),
+    [displaySeries]
+  );
+
+  const corrSeries = useMemo<LabeledReturns[]>(() => {
+    const strategies = corrStrategies
+      .filter((name) => strategySeries[name])
+      .map((name) => {
+        const d = clipReturns(strategySeries[name], start, end);
+        const entry = strategyCatalog.find((x) => x.name === name);
+        return { name: `strategy:${name}`, label: `策略 ${entry?.display_name || name}`, dates: d.dates, ret: d.ret };
+      });
+    return [...displaySeries, ...strategies];
+  }, [displaySeries, corrStrategies, strategySeries, strategyCatalog, start, end]);
+
+  const factorSeries = useMemo(
+    () => displaySeries.filter((d) => !d.name.startsWith(PORTFOLIO_PREFIX)),
+    [displaySeries]
+  );
 
   const gwBar = useMemo(() => {
     const x = gwSelected.map((f) => getFactorLabel(f));
@@ -559,6 +681,20 @@ export default function Home() {
     ];
   }, [gwSelected, gwData, gwHorizon]);
 
+  // 各因子檔案的 events 相同，取第一個有資料的
+  const gwPeriods = useMemo(() => {
+    const withEvents = Object.values(gwData).find((d) => d?.events?.length);
+    return withEvents ? regimePeriods(withEvents.events || []) : [];
+  }, [gwData]);
+
+  const gwRegimeSeries = useMemo<LabeledReturns[]>(
+    () =>
+      gwSelected
+        .filter((f) => gwReturns[f]?.dates?.length)
+        .map((f) => ({ name: f, label: getFactorLabel(f), dates: gwReturns[f].dates, ret: gwReturns[f].ret })),
+    [gwSelected, gwReturns]
+  );
+
   const gwSignalTraces = useMemo(() => {
     if (!benchSeries?.dates?.length || !benchSeries?.ret?.length) return null;
     const x = benchSeries.dates;
@@ -641,6 +777,14 @@ export default function Home() {
             </span>
           </div>
           <div className="flex items-center gap-3">
+            <button
+              onClick={openCommandPalette}
+              className="hidden md:flex items-center gap-2 rounded-full border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-400 shadow-sm hover:border-slate-300 hover:text-slate-600"
+            >
+              搜尋因子、策略、個股
+              <kbd className="rounded border border-slate-200 bg-slate-50 px-1.5 text-[10px] font-bold">Ctrl K</kbd>
+            </button>
+
             <Link
               href="/strategy-library"
               className="rounded-full bg-indigo-600 px-4 py-2 text-sm font-bold text-white shadow-sm hover:bg-indigo-700 transition-colors"
@@ -749,17 +893,41 @@ export default function Home() {
             {/* 無風險利率 */}
             <div>
               <label className="text-xs font-bold uppercase text-slate-400 tracking-wider mb-1 block">無風險利率 (Rf)</label>
+              {rfSeries && (
+                <label className="mb-2 flex items-center gap-1.5 text-xs font-medium text-slate-600">
+                  <input
+                    type="checkbox"
+                    className="h-3.5 w-3.5 rounded border-slate-300"
+                    checked={useRfSeries}
+                    onChange={(e) => setUseRfSeries(e.target.checked)}
+                  />
+                  使用逐日利率{rfSeries.name ? `（${rfSeries.name}）` : ""}，最新 {(rfSeries.rate[rfSeries.rate.length - 1] * 100).toFixed(2)}%
+                </label>
+              )}
               <div className="relative">
                 <input
-                  className="w-full rounded-lg border-slate-200 text-sm font-medium focus:border-blue-500 focus:ring-blue-500 text-slate-700 pl-3 pr-8"
+                  className="w-full rounded-lg border-slate-200 text-sm font-medium focus:border-blue-500 focus:ring-blue-500 text-slate-700 pl-3 pr-8 disabled:opacity-50"
                   type="number"
                   step="0.01"
                   value={rf}
+                  disabled={!!rfSeries && useRfSeries}
                   onChange={(e) => setRf(parseFloat(e.target.value || "0"))}
                 />
                 <span className="absolute right-3 top-2 text-slate-400 text-sm">%</span>
               </div>
             </div>
+
+            {/* 多因子組合 */}
+            <div className="pt-6 border-t border-slate-100">
+              <PortfolioBuilder
+                factors={factors}
+                getLabel={getFactorLabel}
+                portfolios={portfolios}
+                onChange={setPortfolios}
+                shown={shownPortfolios}
+                onShownChange={setShownPortfolios}
+              />
+            </div>
           </section>
 
           {/* 右側：圖表與數據 */}
@@ -786,62 +954,113 @@ export default function Home() {
                   config={{ displayModeBar: false }}
                 />
               </div>
+
+              {displaySeries.length > 0 && (
+                <div className="mt-6 pt-6 border-t border-slate-100">
+                  <div className="mb-2">
+                    <h3 className="text-base font-bold text-slate-800">水下曲線</h3>
+                    <p className="text-sm text-slate-500">距前一高點的跌幅與主要回撤事件</p>
+                  </div>
+                  <DrawdownPanel series={displaySeries} />
+                </div>
+              )}
             </section>
 
             {/* 績效指標表格 */}
             <section className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
-              <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50">
+              <div className="px-6 py-4 border-b border-slate-100 bg-slate-50/50 flex items-center justify-between gap-3">
                 <h3 className="text-base font-semibold text-slate-800">績效指標分析</h3>
+                <div className="flex items-center gap-3">
+                  <BenchmarkSelect
+                    options={factors}
+                    value={metricBenchmark}
+                    onChange={setMetricBenchmark}
+                    getLabel={getFactorLabel}
+                  />
+                  <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600 whitespace-nowrap">
+                    <input
+                      type="checkbox"
+                      className="h-3.5 w-3.5 rounded border-slate-300"
+                      checked={showSignificance}
+                      onChange={(e) => setShowSignificance(e.target.checked)}
+                    />
+                    統計顯著性
+                  </label>
+                  <CostModelPicker value={costModel} onChange={setCostModel} />
+                  <MetricColumnPicker selected={metricCols.keys} onChange={metricCols.setKeys} />
+                </div>
               </div>
               <div className="overflow-x-auto">
                 <table className="w-full text-sm text-left">
                   <thead className="bg-white text-slate-500 border-b border-slate-200">
                     <tr>
                       <th className="px-6 py-3 font-semibold">因子名稱</th>
-                      <th className="px-6 py-3 font-semibold">區間報酬</th>
-                      <th className="px-6 py-3 font-semibold">年化報酬</th>
-                      <th className="px-6 py-3 font-semibold">年化波動</th>
-                      <th className="px-6 py-3 font-semibold">夏普比率</th>
-                      <th className="px-6 py-3 font-semibold">最大回撤</th>
+                      {metricCols.columns.map((c) => (
+                        <th key={c.key} className="px-6 py-3 font-semibold whitespace-nowrap" title={c.hint}>
+                          {c.label}
+                        </th>
+                      ))}
+                      {significanceCols.map((c) => (
+                        <th key={c.key} className="px-6 py-3 font-semibold whitespace-nowrap bg-slate-50" title={c.hint}>
+                          {c.label}
+                        </th>
+                      ))}
                     </tr>
                   </thead>
                   <tbody className="divide-y divide-slate-100">
-                    {metrics.map((row) => (
-                      <tr key={row.factor} className="hover:bg-blue-50/50 transition-colors">
+                    {metrics.map((row, i) => (
+                      <tr
+                        key={row.net ? `${row.factor}#net` : row.factor}
+                        className={`hover:bg-blue-50/50 transition-colors ${row.net ? "bg-amber-50/30" : ""}`}
+                      >
                         <td className="px-6 py-3 font-medium text-slate-900">
-                          <Link
-                            href={`/factor/${encodeURIComponent(row.factor)}`}
-                            className="hover:underline text-slate-900 flex items-center gap-1"
-                          >
-                            {getFactorLabel(row.factor)}
-                            <svg className="w-3 h-3 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                              <path
-                                strokeLinecap="round"
-                                strokeLinejoin="round"
-                                strokeWidth={2}
-                                d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
-                              />
-                            </svg>
-                          </Link>
-                        </td>
-
-                        <td className={`px-6 py-3 font-bold ${row.period_return >= 0 ? "text-emerald-600" : "text-rose-600"}`}>
-                          {(row.period_return * 100).toFixed(2)}%
-                        </td>
-
-                        <td className={`px-6 py-3 font-bold ${row.ann_return >= 0 ? "text-emerald-600" : "text-rose-600"}`}>
-                          {(row.ann_return * 100).toFixed(2)}%
+                          {row.net ? (
+                            <span className="flex items-center gap-1.5 whitespace-nowrap pl-3 text-slate-500">
+                              ↳ {row.label}
+                              <span className="rounded bg-amber-100 px-1.5 py-0.5 text-[10px] font-bold text-amber-700">扣成本</span>
+                            </span>
+                          ) : row.portfolio ? (
+                            <span className="flex items-center gap-1.5 whitespace-nowrap">
+                              {row.label}
+                              <span className="rounded bg-blue-100 px-1.5 py-0.5 text-[10px] font-bold text-blue-700">組合</span>
+                            </span>
+                          ) : (
+                            <Link
+                              href={`/factor/${encodeURIComponent(row.factor)}`}
+                              className="hover:underline text-slate-900 flex items-center gap-1"
+                            >
+                              {row.label}
+                              <svg className="w-3 h-3 text-slate-400" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+                                <path
+                                  strokeLinecap="round"
+                                  strokeLinejoin="round"
+                                  strokeWidth={2}
+                                  d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14"
+                                />
+                              </svg>
+                            </Link>
+                          )}
                         </td>
 
-                        <td className="px-6 py-3 text-slate-600">{(row.ann_vol * 100).toFixed(2)}%</td>
-                        <td className="px-6 py-3 text-slate-600">{row.sharpe === null ? "-" : row.sharpe.toFixed(2)}</td>
-                        <td className="px-6 py-3 text-rose-600">{(row.maxdd * 100).toFixed(2)}%</td>
+                        {metricCols.columns.map((c) => (
+                          <td key={c.key} className={`px-6 py-3 whitespace-nowrap ${metricToneClass(c.tone, row[c.key])}`}>
+                            {formatMetric(c.format, row[c.key])}
+                          </td>
+                        ))}
+                        {significanceCols.map((c) => {
+                          const v = significance?.[i]?.[c.key];
+                          return (
+                            <td key={c.key} className={`px-6 py-3 whitespace-nowrap bg-slate-50/60 ${metricToneClass(c.tone, v)}`}>
+                              {formatMetric(c.format, v)}
+                            </td>
+                          );
+                        })}
                       </tr>
                     ))}
 
                     {metrics.length === 0 && (
                       <tr>
-                        <td colSpan={6} className="px-6 py-8 text-center text-slate-400">
+                        <td colSpan={metricCols.columns.length + significanceCols.length + 1} className="px-6 py-8 text-center text-slate-400">
                           暫無資料
                         </td>
                       </tr>
@@ -849,10 +1068,80 @@ export default function Home() {
                   </tbody>                  
                 </table>
               </div>
+              {significance && metrics.length > 0 && (
+                <p className="px-6 py-3 border-t border-slate-100 text-xs text-slate-400">
+                  信賴區間為 500 次區塊 bootstrap（平均 20 個交易日）的 95% 區間；DSR 以表中 {displaySeries.length} 個序列作為比較次數
+                </p>
+              )}
+              {turnoverSeries.some((t) => t.points.length) && (
+                <div className="px-6 py-5 border-t border-slate-100">
+                  <div className="mb-3">
+                    <h4 className="text-sm font-bold text-slate-700">逐月換手率</h4>
+                    <p className="text-xs text-slate-500">依相鄰兩個月的持股權重計算單邊換手率（未提供權重時為等權重）；組合沒有持股資料不列入</p>
+                  </div>
+                  <TurnoverPanel series={turnoverSeries} model={costModel} />
+                </div>
+              )}
             </section>
           </div>
         </div>
 
+        {/* === 相關係數矩陣 === */}
+        <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 mb-12">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold text-slate-900">相關係數矩陣</h2>
+            <p className="text-sm text-slate-500 mt-1">已選因子在目前區間內的報酬相關性，可加入策略比對是否只是同一因子換名</p>
+          </div>
+
+          {strategyCatalog.length > 0 && (
+            <div className="mb-6 flex flex-wrap items-center gap-2">
+              <span className="text-xs font-bold uppercase text-slate-400 tracking-wider mr-1">加入策略</span>
+              {strategyCatalog.map((x) => {
+                const on = corrStrategies.includes(x.name);
+                return (
+                  <button
+                    key={x.name}
+                    onClick={() =>
+                      setCorrStrategies(on ? corrStrategies.filter((n) => n !== x.name) : [...corrStrategies, x.name])
+                    }
+                    className={`rounded-full border px-3 py-1 text-xs font-bold transition-colors ${
+                      on
+                        ? "border-indigo-600 bg-indigo-600 text-white"
+                        : "border-slate-200 bg-white text-slate-600 hover:border-indigo-300"
+                    }`}
+                  >
+                    {x.display_name || x.name}
+                  </button>
+                );
+              })}
+            </div>
+          )}
+
+          <CorrelationExplorer series={corrSeries} />
+        </section>
+
+        {/* === 因子配置最佳化 === */}
+        <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 mb-12">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold text-slate-900">因子配置最佳化</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              以已選因子在目前區間的日報酬估計權重，每月初再平衡；圖表為估計視窗之後的樣本外結果
+            </p>
+          </div>
+          <OptimizerPanel series={factorSeries} metricOptions={metricOptions} />
+        </section>
+
+        {/* === 自訂事件研究 === */}
+        <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 mb-12">
+          <div className="mb-6">
+            <h2 className="text-2xl font-bold text-slate-900">自訂事件研究</h2>
+            <p className="text-sm text-slate-500 mt-1">
+              貼上事件日期（如法說會、政策公告），看已選因子在事件前後 k 個交易日的平均累積報酬與 95% 信賴區間
+            </p>
+          </div>
+          <EventStudyPanel series={factorSeries} />
+        </section>
+
         {/* === 第二部分：熱力圖 (Distinct Section) === */}
         <section className="bg-white rounded-2xl shadow-lg border border-slate-200 p-8 mb-12">
           <div className="flex flex-col sm:flex-row sm:items-end justify-between mb-6 gap-4">
@@ -961,7 +1250,7 @@ export default function Home() {
                   </div>
 
                   <button
-                    onClick={() => copyTextToClipboard(buildRecentDailyTableText())}
+                    onClick={() => copyText(buildRecentDailyTableText())}
                     className="inline-flex items-center justify-center rounded-lg border border-slate-200 bg-white p-2 text-slate-600 hover:bg-slate-50 hover:text-blue-600 transition-colors"
                     title="複製表格"
                   >
@@ -1079,7 +1368,7 @@ export default function Home() {
                   </div>
 
                   <button
-                    onClick={() => copyTextToClipboard(buildRecentCumTableText())}
+                    onClick={() => copyText(buildRecentCumTableText())}
                     className="inline-flex items-center justify-center rounded-lg border border-slate-200 bg-white p-2 text-slate-600 hover:bg-slate-50 hover:text-blue-600 transition-colors"
                     title="複製表格"
                   >
@@ -1297,6 +1586,14 @@ export default function Home() {
             </div>
           </div>
 
+          {/* GW Regime Table */}
+          {gwSelected.length > 0 && (
+            <div className="mt-8">
+              <h3 className="text-sm font-bold uppercase text-slate-500 tracking-wider mb-3">景氣區間表現</h3>
+              <RegimePanel periods={gwPeriods} series={gwRegimeSeries} metricOptions={metricOptions} />
+            </div>
+          )}
+
           {/* GW Signal Chart (Dark Theme for Contrast) */}
           <div className="mt-10 p-1 bg-slate-100 rounded-2xl">
             <div className="bg-slate-900 rounded-xl p-6 shadow-inner text-slate-200">
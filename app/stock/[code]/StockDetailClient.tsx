@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { usePathname } from "next/navigation";
+import Link from "next/link";
+import dynamic from "next/dynamic";
+import { loadAllHoldings, loadStockNames, type HoldingsSource } from "@/lib/data";
+import type { StockNamesResp } from "@/lib/types";
+import { stockMembership } from "@/lib/analytics/holdings";
+import type { LabeledHoldings } from "@/lib/analytics/overlap";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+function sourceKey(src: HoldingsSource) {
+  return src.kind === "strategy" ? `strategy:${src.name}` : src.name;
+}
+
+function sourceHref(src: HoldingsSource) {
+  return src.kind === "factor"
+    ? `/factor/${encodeURIComponent(src.name)}`
+    : `/strategy-library?strategy=${encodeURIComponent(src.name)}`;
+}
+
+export default function StockDetailClient({ code }: { code?: string }) {
+  const pathname = usePathname();
+
+  // 與因子頁相同：props 沒帶到時改從網址取代號
+  const safeCode = useMemo(() => {
+    if (code && code !== "undefined" && code.trim().length > 0) return code;
+    if (!pathname) return "";
+    const last = pathname.split("/").filter(Boolean).pop();
+    return last ? decodeURIComponent(last) : "";
+  }, [code, pathname]);
+
+  const [sources, setSources] = useState<HoldingsSource[]>([]);
+  const [stockNames, setStockNames] = useState<StockNamesResp>({});
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    (async () => {
+      setLoading(true);
+      const [all, names] = await Promise.all([
+        loadAllHoldings("個股持有紀錄"),
+        loadStockNames("個股持有紀錄").catch(() => ({}) as StockNamesResp),
+      ]);
+      setSources(all);
+      setStockNames(names);
+      setLoading(false);
+    })();
+  }, []);
+
+  const sourceByKey = useMemo(() => new Map(sources.map((s) => [sourceKey(s), s])), [sources]);
+
+  const membership = useMemo(() => {
+    const series: LabeledHoldings[] = sources.map((s) => ({
+      name: sourceKey(s),
+      label: s.kind === "strategy" ? `策略 ${s.entry?.display_name || s.name}` : `因子 ${s.name}`,
+      holdings: s.holdings,
+    }));
+    return stockMembership(series, safeCode);
+  }, [sources, safeCode]);
+
+  const current = useMemo(
+    () => membership.rows.filter((r) => r.streak > 0).sort((a, b) => b.streak - a.streak),
+    [membership]
+  );
+
+  const firstMonth = membership.months[membership.counts.findIndex((c) => c > 0)];
+  const stockName = stockNames[safeCode];
+  const labels = membership.rows.map((r) => r.label);
+
+  return (
+    <div className="min-h-screen bg-slate-50 text-slate-900 font-sans">
+      <header className="sticky top-0 z-50 w-full border-b border-slate-200 bg-white/80 backdrop-blur-md">
+        <div className="mx-auto flex max-w-5xl items-center justify-between px-6 py-4">
+          <div className="flex items-center gap-3">
+            <h1 className="text-xl font-extrabold tracking-tight text-slate-900">
+              <span className="font-mono">{safeCode || "-"}</span>
+              {stockName && <span className="ml-2">{stockName}</span>}
+            </h1>
+            <span className="rounded-full bg-emerald-100 px-2.5 py-0.5 text-xs font-bold text-emerald-700 border border-emerald-200">
+              個股
+            </span>
+          </div>
+          <div className="flex items-center gap-4">
+            <Link href="/strategy-library" className="text-sm font-semibold text-slate-500 hover:underline">
+              策略庫
+            </Link>
+            <Link href="/" className="text-sm font-semibold text-blue-600 hover:underline">
+              ← 回首頁
+            </Link>
+          </div>
+        </div>
+      </header>
+
+      <main className="mx-auto max-w-5xl px-4 py-8 sm:px-6 space-y-8">
+        {loading ? (
+          <div className="py-20 text-center text-slate-400">讀取持股資料中…</div>
+        ) : !membership.rows.length ? (
+          <div className="rounded-2xl border border-dashed border-slate-300 bg-white p-10 text-center text-slate-400">
+            {safeCode} 從未出現在任何因子或策略的持股名單中
+          </div>
+        ) : (
+          <>
+            {/* Summary */}
+            <section className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {[
+                { label: "目前持有的因子 / 策略", value: `${current.length} 個`, color: "text-blue-600" },
+                {
+                  label: "最長目前連續持有",
+                  value: current.length ? `${current[0].streak} 月` : "-",
+                  color: "text-slate-800",
+                },
+                { label: "曾入選的因子 / 策略", value: `${membership.rows.length} 個`, color: "text-slate-800" },
+                { label: "首次入選", value: firstMonth ?? "-", color: "text-slate-800" },
+              ].map((c) => (
+                <div key={c.label} className="rounded-2xl border border-slate-200 bg-white p-4 shadow-sm">
+                  <div className="text-xs font-bold text-slate-400">{c.label}</div>
+                  <div className={`mt-1 text-xl font-bold ${c.color}`}>{c.value}</div>
+                </div>
+              ))}
+            </section>
+
+            {/* Current streaks */}
+            <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-bold text-slate-800 mb-1">目前持有</h2>
+              <p className="text-xs text-slate-500 mb-4">以各來源最新月份為準；數字為截至該月已連續持有的月數</p>
+              {current.length ? (
+                <div className="flex flex-wrap gap-2">
+                  {current.map((r) => {
+                    const src = sourceByKey.get(r.name);
+                    return (
+                      <Link
+                        key={r.name}
+                        href={src ? sourceHref(src) : "/"}
+                        className="inline-flex items-center gap-1.5 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-sm font-bold text-slate-700 hover:border-blue-200 hover:bg-blue-50"
+                        title={`最新月份 ${r.lastMonth}，累計入選 ${r.total} 個月`}
+                      >
+                        {r.label}
+                        <span className="rounded bg-blue-100 px-1.5 text-xs font-medium text-blue-700">{r.streak} 月</span>
+                      </Link>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-slate-400 text-sm">目前沒有任何因子或策略持有</div>
+              )}
+            </section>
+
+            {/* Membership grid */}
+            <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-bold text-slate-800 mb-1">入選紀錄</h2>
+              <p className="text-xs text-slate-500 mb-4">藍色 = 當月入選；空白 = 該來源當月沒有資料</p>
+              <div className="w-full" style={{ height: Math.max(220, 80 + membership.rows.length * 28) }}>
+                <Plot
+                  data={[
+                    {
+                      type: "heatmap",
+                      x: membership.months,
+                      // 以 index 當座標，避免因子與策略同名時互相覆蓋
+                      y: labels.map((_, i) => i),
+                      z: membership.rows.map((r) => r.held),
+                      zmin: 0,
+                      zmax: 1,
+                      colorscale: [
+                        [0, "#f1f5f9"],
+                        [0.5, "#f1f5f9"],
+                        [0.5, "#2563eb"],
+                        [1, "#2563eb"],
+                      ],
+                      showscale: false,
+                      xgap: 1,
+                      ygap: 2,
+                      text: membership.rows.map((r) =>
+                        r.held.map((v) => `${r.label}<br>${v === 1 ? "入選" : v === 0 ? "未入選" : "無資料"}`)
+                      ),
+                      hovertemplate: "%{x}<br>%{text}<extra></extra>",
+                    },
+                  ]}
+                  layout={{
+                    autosize: true,
+                    margin: { l: 150, r: 10, t: 10, b: 40 },
+                    xaxis: { type: "category", nticks: 12, tickangle: -40 },
+                    yaxis: { tickvals: labels.map((_, i) => i), ticktext: labels, autorange: "reversed" },
+                  }}
+                  style={{ width: "100%", height: "100%" }}
+                  useResizeHandler
+                  config={{ displayModeBar: false }}
+                />
+              </div>
+            </section>
+
+            {/* Count timeline */}
+            <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+              <h2 className="text-lg font-bold text-slate-800 mb-4">持有的因子 / 策略數</h2>
+              <div className="w-full h-[220px]">
+                <Plot
+                  data={[
+                    {
+                      x: membership.months,
+                      y: membership.counts,
+                      type: "bar",
+                      marker: { color: "#2563eb" },
+                      hovertemplate: "%{x}<br>%{y} 個<extra></extra>",
+                    },
+                  ]}
+                  layout={{
+                    autosize: true,
+                    margin: { l: 35, r: 10, t: 5, b: 30 },
+                    showlegend: false,
+                    bargap: 0.15,
+                    xaxis: { gridcolor: "#f1f5f9" },
+                    yaxis: { gridcolor: "#f1f5f9", rangemode: "tozero", dtick: 1 },
+                  }}
+                  style={{ width: "100%", height: "100%" }}
+                  useResizeHandler
+                  config={{ displayModeBar: false }}
+                />
+              </div>
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
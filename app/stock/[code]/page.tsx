@@ -0,0 +1,39 @@
+import React from "react";
+import StockDetailClient from "./StockDetailClient";
+import { loadAllHoldings, loadStockNames } from "@/lib/data";
+import { enableSnapshotOnServer } from "@/lib/data-source.server";
+
+// 靜態匯出：stock_names.json 與所有持股檔出現過的代號
+export async function generateStaticParams() {
+  const snapshot = enableSnapshotOnServer();
+  try {
+    // 快照模式下讀不到名稱檔或任何持股檔代表快照不完整，直接讓 build 失敗
+    const [names, sources] = await Promise.all([
+      snapshot ? loadStockNames() : loadStockNames().catch(() => ({})),
+      loadAllHoldings(),
+    ]);
+    if (snapshot && !sources.length) throw new Error("No holdings found in snapshot");
+    const codes = new Set(Object.keys(names));
+    for (const src of sources) {
+      for (const list of Object.values(src.holdings.holdings)) for (const t of list) codes.add(String(t));
+    }
+    return Array.from(codes).sort().map((code) => ({ code }));
+  } catch (e) {
+    if (snapshot) throw e;
+    console.error("Generate params failed:", e);
+    return [];
+  }
+}
+
+export const dynamic = "force-static";
+
+type Props = {
+  params: Promise<{ code: string }>;
+};
+
+export default async function Page({ params }: Props) {
+  const resolvedParams = await params;
+  const code = decodeURIComponent(resolvedParams.code);
+
+  return <StockDetailClient code={code} />;
+}
@@ -1,222 +1,137 @@
 "use client";
 
-import React, { useEffect, useMemo, useState } from "react";
+import React, { Suspense, useEffect, useMemo, useState } from "react";
 import dynamic from "next/dynamic";
 import Link from "next/link";
+import { useSearchParams } from "next/navigation";
+import {
+  loadAllHoldings,
+  loadFactorHoldings,
+  loadFactorList,
+  loadFactorReturns,
+  loadRiskFree,
+  loadStockNames,
+  loadStockSectors,
+  loadStrategyCatalog,
+  loadStrategyHoldings,
+  loadStrategyReturns,
+  type StrategyCatalog,
+} from "@/lib/data";
+import type {
+  HoldingsResp,
+  ReturnsResp,
+  RiskFreeResp,
+  StockNamesResp,
+  StockSectorsResp,
+  StrategyManifestEntry,
+} from "@/lib/types";
+import { calcMetrics, type MetricOptions, type PerformanceMetrics } from "@/lib/analytics/metrics";
+import { calcBenchmarkMetrics, defaultBenchmark, type BenchmarkMetrics } from "@/lib/analytics/benchmark";
+import { formatMetric, metricToneClass, SIGNIFICANCE_COLUMNS } from "@/lib/analytics/metric-columns";
+import { calcSignificance, type SignificanceMetrics } from "@/lib/analytics/significance";
+import type { LabeledHoldings } from "@/lib/analytics/overlap";
+import { blendWeights, concentration } from "@/lib/analytics/weights";
+import { monthWeights, monthlyTurnover, netOfCostReturns, type TurnoverPoint } from "@/lib/analytics/turnover";
+import { clipReturns, toCum } from "@/lib/analytics/series";
+import { DEFAULT_SECTOR_BENCHMARK, filterBySector } from "@/lib/analytics/sectors";
+import MetricColumnPicker, { useMetricColumns } from "@/components/MetricColumnPicker";
+import BenchmarkSelect from "@/components/BenchmarkSelect";
+import MonthlyReturnGrid from "@/components/MonthlyReturnGrid";
+import { copyText } from "@/lib/clipboard";
+import { usePersistentState } from "@/lib/hooks/use-persistent-state";
+import { getFactorLabel } from "@/lib/factor-labels";
+import CostModelPicker, { useCostModel } from "@/components/CostModelPicker";
+import TurnoverPanel from "@/components/TurnoverPanel";
+import OverlapMatrixPanel from "@/components/OverlapMatrixPanel";
+import SectorPanel, { SectorFilter } from "@/components/SectorPanel";
+import HoldingsDiffPanel, { HoldingsViewToggle, type HoldingsView } from "@/components/HoldingsDiffPanel";
 
 const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
 
-const GH_OWNER = "alfred0630";
-const GH_REPO = "factor-platform-database";
-const GH_BRANCH = "main";
-
-const RAW_BASE = `https://raw.githubusercontent.com/${GH_OWNER}/${GH_REPO}/${GH_BRANCH}`;
-const API_BASE = `https://api.github.com/repos/${GH_OWNER}/${GH_REPO}/contents`;
-
-type ReturnsResp = {
-  name?: string;
-  factor?: string;
-  dates: string[];
-  ret: number[];
-};
-
-type HoldingsResp = {
-  factor: string;
-  asof?: string;
-  months: string[];
-  holdings: Record<string, string[]>;
-};
-
-type MetricRow = {
-  factor: string;
-  periodReturn: number;
-  annReturn: number;
-  annVol: number;
-  sharpe: number | null;
-  maxdd: number;
-};
-
-type GithubFile = {
-  name: string;
-  path?: string;
-  type: string;
-};
-
-type StockNamesResp = Record<string, string>;
-
-const FACTOR_LABELS: Record<string, string> = {
-  StarSearch: "StarSearch",
-  EPS_growth: "EPS 動能",
-  High_yield: "高股息",
-  High_yoy: "營收成長",
-  Low_beta: "低 Beta",
-  Margin_growth: "利潤率成長",
-  Momentum_01: "價格動能 1M",
-  Momentum_03: "價格動能 3M",
-  Momentum_06: "價格動能 6M",
-  PB_low: "低 PB",
-  PE_low: "低 PE",
-  Top200: "市值前 200",
-  TWA00: "加權指數",
-};
-
-function getFactorLabel(name: string) {
-  return FACTOR_LABELS[name] || name;
-}
-
-function parseDate(s: string) {
-  const d = new Date(s);
-  return Number.isNaN(d.getTime()) ? null : d;
-}
-
-function fmtPct(x: number | null | undefined) {
-  if (x === null || x === undefined || Number.isNaN(x as any)) return "-";
-  return `${(x * 100).toFixed(2)}%`;
-}
-
-function toCum(retArr: number[]) {
-  let v = 1;
-  return retArr.map((r) => {
-    v *= 1 + r;
-    return v;
-  });
-}
-
-function maxDrawdownFromReturns(ret: number[]) {
-  let nav = 1;
-  let peak = 1;
-  let maxdd = 0;
-
-  for (const r of ret) {
-    nav *= 1 + r;
-    if (nav > peak) peak = nav;
-    const dd = nav / peak - 1;
-    if (dd < maxdd) maxdd = dd;
-  }
-
-  return maxdd;
-}
-
-function clipReturns(d: ReturnsResp, start: string, end: string): ReturnsResp {
-  const s = parseDate(start);
-  const e = parseDate(end);
-  if (!s || !e) return d;
-
-  const dates: string[] = [];
-  const ret: number[] = [];
-
-  for (let i = 0; i < d.dates.length; i++) {
-    const di = parseDate(d.dates[i]);
-    if (!di) continue;
-
-    if (di >= s && di <= e) {
-      dates.push(d.dates[i]);
-      ret.push(d.ret[i]);
-    }
-  }
-
-  return {
-    ...d,
-    dates,
-    ret,
-  };
-}
-
-function calcMetrics(factor: string, ret: number[], freq = 252): MetricRow {
-  if (!ret.length) {
-    return {
-      factor,
-      periodReturn: 0,
-      annReturn: 0,
-      annVol: 0,
-      sharpe: null,
-      maxdd: 0,
-    };
-  }
-
-  let nav = 1;
-  for (const r of ret) nav *= 1 + r;
-
-  const n = ret.length;
-  const periodReturn = nav - 1;
-  const annReturn = Math.pow(nav, freq / n) - 1;
-
-  const mean = ret.reduce((a, b) => a + b, 0) / n;
-  const variance = ret.reduce((a, r) => a + (r - mean) ** 2, 0) / Math.max(1, n - 1);
-  const annVol = Math.sqrt(variance * freq);
-
-  const sharpe = annVol === 0 ? null : (mean * freq) / annVol;
-  const maxdd = maxDrawdownFromReturns(ret);
-
-  return {
-    factor,
-    periodReturn,
-    annReturn,
-    annVol,
-    sharpe,
-    maxdd,
-  };
-}
-
-async function fetchJson<T>(url: string): Promise<T> {
-  const r = await fetch(url, { cache: "no-store" });
-
-  if (!r.ok) {
-    const t = await r.text().catch(() => "");
-    throw new Error(`fetch failed ${r.status}: ${url}\n${t.slice(0, 200)}`);
-  }
-
-  return (await r.json()) as T;
-}
-
-function jsonFileStem(fileName: string) {
-  return fileName.replace(/\.json$/i, "");
-}
-
-async function listJsonFileStems(folder: string): Promise<string[]> {
-  const url = `${API_BASE}/${folder}?ref=${GH_BRANCH}`;
-  const files = await fetchJson<GithubFile[]>(url);
-
-  return files
-    .filter((x) => x.type === "file")
-    .filter((x) => typeof x.name === "string" && x.name.toLowerCase().endsWith(".json"))
-    .map((x) => jsonFileStem(x.name))
-    .sort((a, b) => a.localeCompare(b));
-}
-
-async function listStrategyNames(): Promise<string[]> {
-  const [returnNames, holdingNames] = await Promise.all([
-    listJsonFileStems("strategy_data/returns"),
-    listJsonFileStems("strategy_data/holdings"),
-  ]);
-
-  const holdingSet = new Set(holdingNames);
-  const bothSides = returnNames.filter((name) => holdingSet.has(name));
-
-  if (bothSides.length > 0) return bothSides;
-
-  return returnNames;
+type MetricRow = { factor: string } & PerformanceMetrics & BenchmarkMetrics;
+
+// ?strategy=<name>：從全站搜尋或個股頁跳過來時，選取並展開該策略
+function StrategyFromQuery({
+  setSelected,
+  setExpanded,
+}: {
+  setSelected: React.Dispatch<React.SetStateAction<string[]>>;
+  setExpanded: (name: string | null) => void;
+}) {
+  const strategy = useSearchParams().get("strategy");
+  useEffect(() => {
+    if (!strategy) return;
+    setSelected((prev) => (prev.includes(strategy) ? prev : [...prev, strategy]));
+    setExpanded(strategy);
+  }, [strategy, setSelected, setExpanded]);
+  return null;
 }
 
 export default function FactorLibraryPage() {
   const [factors, setFactors] = useState<string[]>([]);
+  const [catalog, setCatalog] = useState<StrategyManifestEntry[]>([]);
+  const [catalogOrigin, setCatalogOrigin] = useState<StrategyCatalog["origin"] | null>(null);
   const [selectedFactors, setSelectedFactors] = useState<string[]>([]);
   const [returnsMap, setReturnsMap] = useState<Record<string, ReturnsResp>>({});
   const [holdingsMap, setHoldingsMap] = useState<Record<string, HoldingsResp>>({});
   const [stockNames, setStockNames] = useState<StockNamesResp>({});
 
+  // 基準來自因子資料 (data/returns)
+  const [benchOptions, setBenchOptions] = useState<string[]>([]);
+  const [benchmark, setBenchmark] = useState("");
+  const [benchSeries, setBenchSeries] = useState<ReturnsResp | null>(null);
+  // 沒有 data/risk_free.json 時無風險利率視為 0
+  const [rfSeries, setRfSeries] = useState<RiskFreeResp | null>(null);
+  const metricCols = useMetricColumns("strategy-library.metricColumns");
+  const [showSignificance, setShowSignificance] = usePersistentState("strategy-library.showSignificance", false);
+  const [costModel, setCostModel] = useCostModel();
+
   const [start, setStart] = useState("2005-01-01");
   const [end, setEnd] = useState("2026-12-31");
 
   const [expandedFactor, setExpandedFactor] = useState<string | null>(null);
   const [selectedMonth, setSelectedMonth] = useState<string>("");
+  const [holdingsView, setHoldingsView] = useState<HoldingsView>("list");
+
+  // 沒有 data/stock_sectors.json 時不顯示產業配置與篩選
+  const [sectors, setSectors] = useState<StockSectorsResp | null>(null);
+  const [sectorFilter, setSectorFilter] = useState("");
+  const [basketSectorFilter, setBasketSectorFilter] = useState("");
+  const [sectorBench, setSectorBench] = useState("");
+  const [sectorBenchHoldings, setSectorBenchHoldings] = useState<HoldingsResp | null>(null);
 
   const [basketFactors, setBasketFactors] = useState<string[]>([]);
   const [mode, setMode] = useState<"intersection" | "union">("intersection");
 
+  // 重疊矩陣：data/holdings 的全部因子 + strategy_data/holdings 的全部策略
+  const [overlapHoldings, setOverlapHoldings] = useState<LabeledHoldings[]>([]);
+
   const [loading, setLoading] = useState(false);
   const [errorMsg, setErrorMsg] = useState("");
 
+  const catalogByName = useMemo(() => {
+    const obj: Record<string, StrategyManifestEntry> = {};
+    for (const s of catalog) obj[s.name] = s;
+    return obj;
+  }, [catalog]);
+
+  // manifest 沒寫旗標的策略（例如尚未載入）一律視為兩邊都有
+  const hasReturns = (name: string) => catalogByName[name]?.has_returns !== false;
+  const hasHoldings = (name: string) => catalogByName[name]?.has_holdings !== false;
+
+  const getStrategyLabel = (name: string) => catalogByName[name]?.display_name || getFactorLabel(name);
+
+  // 依 manifest 的 category 分組；沒有分類的放在最後
+  const groupedFactors = useMemo(() => {
+    const groups = new Map<string, string[]>();
+    for (const name of factors) {
+      const cat = catalogByName[name]?.category || "";
+      if (!groups.has(cat)) groups.set(cat, []);
+      groups.get(cat)!.push(name);
+    }
+    return Array.from(groups.entries()).sort(([a], [b]) => (a === "" ? 1 : b === "" ? -1 : a.localeCompare(b)));
+  }, [factors, catalogByName]);
+
   const getStockDisplay = (stockCode: string) => {
     const code = String(stockCode);
     const name = stockNames[code];
@@ -229,14 +144,21 @@ export default function FactorLibraryPage() {
       setErrorMsg("");
 
       try {
-        const names = await listStrategyNames();
-        setFactors(names);
-
-        const defaults = names.includes("StarSearch") ? ["StarSearch"] : names.slice(0, 1);
-        setSelectedFactors(defaults);
+        const { strategies, origin } = await loadStrategyCatalog("策略選擇");
+        setCatalog(strategies);
+        setCatalogOrigin(origin);
+        setFactors(strategies.map((s) => s.name));
+
+        const withReturns = strategies.filter((s) => s.has_returns).map((s) => s.name);
+        const defaults = withReturns.includes("StarSearch") ? ["StarSearch"] : withReturns.slice(0, 1);
+        // 網址帶 ?strategy= 時保留由網址選入的策略
+        setSelectedFactors((prev) => {
+          const valid = prev.filter((n) => withReturns.includes(n));
+          return valid.length ? valid : defaults;
+        });
       } catch (e: any) {
         setErrorMsg(
-          "自動掃描策略失敗。請確認 GitHub repo 是公開的，而且 strategy_data/returns 與 strategy_data/holdings 路徑存在。"
+          "讀取策略清單失敗。請確認 strategy_data/manifest.json 存在，或 strategy_data/returns 與 strategy_data/holdings 路徑可讀取。"
         );
       } finally {
         setLoading(false);
@@ -247,8 +169,86 @@ export default function FactorLibraryPage() {
   useEffect(() => {
     (async () => {
       try {
-        const d = await fetchJson<StockNamesResp>(`${RAW_BASE}/data/stock_names.json`);
-        setStockNames(d || {});
+        const list = await loadFactorList("策略績效表");
+        setBenchOptions(list);
+        setBenchmark(defaultBenchmark(list));
+        setSectorBench(list.includes(DEFAULT_SECTOR_BENCHMARK) ? DEFAULT_SECTOR_BENCHMARK : "");
+      } catch {
+        setBenchOptions([]);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      if (!benchmark) {
+        setBenchSeries(null);
+        return;
+      }
+      try {
+        setBenchSeries(await loadFactorReturns(benchmark, "策略績效表"));
+      } catch {
+        setBenchSeries(null);
+      }
+    })();
+  }, [benchmark]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setRfSeries(await loadRiskFree("策略績效表"));
+      } catch {
+        setRfSeries(null);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      const sources = await loadAllHoldings("持股重疊");
+      setOverlapHoldings(
+        sources.map((src) =>
+          src.kind === "factor"
+            ? { name: src.name, label: `因子 ${getFactorLabel(src.name)}`, holdings: src.holdings }
+            : {
+                name: `strategy:${src.name}`,
+                label: `策略 ${src.entry?.display_name || getFactorLabel(src.name)}`,
+                holdings: src.holdings,
+              }
+        )
+      );
+    })();
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setSectors(await loadStockSectors("產業配置"));
+      } catch {
+        setSectors(null);
+      }
+    })();
+  }, []);
+
+  useEffect(() => {
+    (async () => {
+      if (!sectorBench) {
+        setSectorBenchHoldings(null);
+        return;
+      }
+      try {
+        setSectorBenchHoldings(await loadFactorHoldings(sectorBench, "產業配置"));
+      } catch {
+        setSectorBenchHoldings(null);
+      }
+    })();
+  }, [sectorBench]);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        const d = await loadStockNames("月份持股");
+        setStockNames(d);
       } catch {
         setStockNames({});
       }
@@ -268,18 +268,8 @@ export default function FactorLibraryPage() {
 
       try {
         const returnPairs = await Promise.all(
-          selectedFactors.map(async (f): Promise<[string, ReturnsResp]> => {
-            const d = await fetchJson<ReturnsResp>(
-              `${RAW_BASE}/strategy_data/returns/${encodeURIComponent(f)}.json`
-            );
-
-            const normalized: ReturnsResp = {
-              name: d.name || d.factor || f,
-              factor: d.factor || d.name || f,
-              dates: d.dates || [],
-              ret: d.ret || [],
-            };
-
+          selectedFactors.filter(hasReturns).map(async (f): Promise<[string, ReturnsResp]> => {
+            const normalized = await loadStrategyReturns(f, "策略歷史區間報酬");
             return [f, normalized];
           })
         );
@@ -287,17 +277,8 @@ export default function FactorLibraryPage() {
         const holdingsPairs = await Promise.all(
           selectedFactors.map(async (f): Promise<[string, HoldingsResp]> => {
             try {
-              const d = await fetchJson<HoldingsResp>(
-                `${RAW_BASE}/strategy_data/holdings/${encodeURIComponent(f)}.json`
-              );
-
-              const normalized: HoldingsResp = {
-                factor: d.factor || f,
-                asof: d.asof,
-                months: d.months || Object.keys(d.holdings || {}).sort(),
-                holdings: d.holdings || {},
-              };
-
+              if (!hasHoldings(f)) throw new Error(`no holdings: ${f}`);
+              const normalized = await loadStrategyHoldings(f, "月份持股");
               return [f, normalized];
             } catch {
               return [
@@ -348,12 +329,64 @@ export default function FactorLibraryPage() {
     return obj;
   }, [returnsMap, selectedFactors, start, end]);
 
+  const metricOptions = useMemo<MetricOptions>(() => ({ rfSeries }), [rfSeries]);
+
   const metrics = useMemo(() => {
-    return selectedFactors.map((f) => {
+    return selectedFactors.map((f): MetricRow => {
       const d = clippedReturnsMap[f];
-      return calcMetrics(f, d?.ret || []);
+      const dates = d?.dates || [];
+      const ret = d?.ret || [];
+      return {
+        factor: f,
+        ...calcMetrics(dates, ret, metricOptions),
+        ...calcBenchmarkMetrics(dates, ret, benchSeries, metricOptions),
+      };
     });
-  }, [selectedFactors, clippedReturnsMap]);
+  }, [selectedFactors, clippedReturnsMap, benchSeries, metricOptions]);
+
+  const turnoverMap = useMemo(() => {
+    const out: Record<string, TurnoverPoint[]> = {};
+    for (const f of selectedFactors) if (holdingsMap[f]) out[f] = monthlyTurnover(holdingsMap[f]);
+    return out;
+  }, [selectedFactors, holdingsMap]);
+
+  // 扣除交易成本後的報酬（沒有持股資料的策略不列）
+  const netReturnsMap = useMemo(() => {
+    const out: Record<string, ReturnsResp> = {};
+    if (!costModel.enabled) return out;
+    for (const f of selectedFactors) {
+      const d = clippedReturnsMap[f];
+      if (d?.dates.length && turnoverMap[f]?.length) out[f] = netOfCostReturns(d, turnoverMap[f], costModel);
+    }
+    return out;
+  }, [selectedFactors, clippedReturnsMap, turnoverMap, costModel]);
+
+  const netMetrics = useMemo(() => {
+    const out: Record<string, MetricRow> = {};
+    for (const [f, d] of Object.entries(netReturnsMap)) {
+      out[f] = {
+        factor: f,
+        ...calcMetrics(d.dates, d.ret, metricOptions),
+        ...calcBenchmarkMetrics(d.dates, d.ret, benchSeries, metricOptions),
+      };
+    }
+    return out;
+  }, [netReturnsMap, benchSeries, metricOptions]);
+
+  // 顯著性：毛報酬與淨報酬一起算，DSR 的比較次數與 Sharpe 分散只算毛報酬
+  const significance = useMemo(() => {
+    if (!showSignificance) return null;
+    const gross = selectedFactors.map((f) => clippedReturnsMap[f] ?? { dates: [], ret: [] });
+    const netNames = selectedFactors.filter((f) => netReturnsMap[f]);
+    const all = calcSignificance([...gross, ...netNames.map((f) => ({ ...netReturnsMap[f], net: true }))], {
+      ...metricOptions,
+      trials: selectedFactors.length,
+    });
+    const net: Record<string, SignificanceMetrics> = {};
+    netNames.forEach((f, i) => (net[f] = all[gross.length + i]));
+    return { gross: all.slice(0, gross.length), net };
+  }, [showSignificance, selectedFactors, clippedReturnsMap, netReturnsMap, metricOptions]);
+  const significanceCols = significance ? SIGNIFICANCE_COLUMNS : [];
 
   const chartData = useMemo(() => {
     return selectedFactors
@@ -366,11 +399,11 @@ export default function FactorLibraryPage() {
           y: toCum(d.ret),
           type: "scatter",
           mode: "lines",
-          name: getFactorLabel(f),
+          name: getStrategyLabel(f),
         };
       })
       .filter(Boolean);
-  }, [selectedFactors, clippedReturnsMap]);
+  }, [selectedFactors, clippedReturnsMap, catalogByName]);
 
   const allMonths = useMemo(() => {
     const s = new Set<string>();
@@ -405,6 +438,46 @@ export default function FactorLibraryPage() {
       .sort();
   }, [basketFactors, selectedMonth, holdingsMap, mode]);
 
+  // 檔案有提供權重的月份才顯示權重與集中度
+  const expandedWeights = useMemo(
+    () => (expandedFactor && selectedMonth ? (holdingsMap[expandedFactor]?.weights?.[selectedMonth] ?? null) : null),
+    [expandedFactor, selectedMonth, holdingsMap]
+  );
+  const expandedConcentration = useMemo(
+    () => (expandedWeights ? concentration(expandedWeights) : null),
+    [expandedWeights]
+  );
+
+  const shownExpanded = useMemo(() => {
+    const list = sectors ? filterBySector(holdingsForExpanded, sectors, sectorFilter) : holdingsForExpanded;
+    return expandedWeights ? [...list].sort((a, b) => (expandedWeights[b] ?? 0) - (expandedWeights[a] ?? 0)) : list;
+  }, [holdingsForExpanded, sectors, sectorFilter, expandedWeights]);
+
+  // 交集 / 聯集：任一策略當月有權重時，以各策略等權合併後的權重顯示
+  const basketWeights = useMemo(() => {
+    if (!selectedMonth || !basketFactors.some((f) => holdingsMap[f]?.weights?.[selectedMonth])) return null;
+    return blendWeights(
+      basketFactors
+        .filter((f) => holdingsMap[f]?.holdings?.[selectedMonth]?.length)
+        .map((f) => monthWeights(holdingsMap[f], selectedMonth))
+    );
+  }, [basketFactors, selectedMonth, holdingsMap]);
+
+  const shownBasket = useMemo(() => {
+    const list = sectors ? filterBySector(intersectionOrUnion, sectors, basketSectorFilter) : intersectionOrUnion;
+    return basketWeights ? [...list].sort((a, b) => (basketWeights[b] ?? 0) - (basketWeights[a] ?? 0)) : list;
+  }, [intersectionOrUnion, sectors, basketSectorFilter, basketWeights]);
+
+  const basketSummary = useMemo(() => {
+    if (!basketWeights) return null;
+    if (mode === "union") {
+      const c = concentration(basketWeights);
+      return c ? `合併後前十大權重 ${(c.top10 * 100).toFixed(1)}%，有效檔數 ${c.effectiveN.toFixed(1)}` : null;
+    }
+    const share = intersectionOrUnion.reduce((a, t) => a + (basketWeights[t] ?? 0), 0);
+    return `交集占合併權重 ${(share * 100).toFixed(1)}%`;
+  }, [basketWeights, mode, intersectionOrUnion]);
+
   const toggleSelectedFactor = (factor: string) => {
     if (selectedFactors.includes(factor)) {
       setSelectedFactors(selectedFactors.filter((x) => x !== factor));
@@ -415,6 +488,7 @@ export default function FactorLibraryPage() {
   };
 
   const addToBasket = (factor: string) => {
+    if (!hasHoldings(factor)) return;
     if (!basketFactors.includes(factor)) {
       setBasketFactors([...basketFactors, factor]);
     }
@@ -433,30 +507,21 @@ export default function FactorLibraryPage() {
   };
 
   const selectAllBasketFactors = () => {
-    setBasketFactors(factors);
+    setBasketFactors(factors.filter(hasHoldings));
   };
 
   const clearBasketFactors = () => {
     setBasketFactors([]);
   };
 
-  const copyStocks = async (stocks: string[]) => {
-    const text = stocks.map((stock) => getStockDisplay(stock)).join("、");
-
-    try {
-      await navigator.clipboard.writeText(text);
-    } catch {
-      const textarea = document.createElement("textarea");
-      textarea.value = text;
-      document.body.appendChild(textarea);
-      textarea.select();
-      document.execCommand("copy");
-      document.body.removeChild(textarea);
-    }
-  };
+  const copyStocks = (stocks: string[]) => copyText(stocks.map((stock) => getStockDisplay(stock)).join("、"));
 
   return (
     <div className="min-h-screen bg-slate-50 text-slate-900 font-sans selection:bg-indigo-100">
+      <Suspense fallback={null}>
+        <StrategyFromQuery setSelected={setSelectedFactors} setExpanded={setExpandedFactor} />
+      </Suspense>
+
       <header className="sticky top-0 z-50 border-b border-slate-200 bg-white/80 backdrop-blur-md">
         <div className="mx-auto flex max-w-7xl items-center justify-between px-6 py-4">
           <div>
@@ -470,7 +535,7 @@ export default function FactorLibraryPage() {
             </div>
 
             <p className="mt-1 text-sm text-slate-500">
-              自動掃描 strategy_data，查看策略報酬、月份持股與選股交集
+              依 strategy_data 策略清單，查看策略報酬、月份持股與選股交集
             </p>
           </div>
 
@@ -495,12 +560,15 @@ export default function FactorLibraryPage() {
             <div className="mb-5 flex items-center justify-between">
               <div>
                 <h2 className="text-lg font-bold text-slate-900">策略選擇</h2>
-                <p className="text-sm text-slate-500">掃描到 {factors.length} 個策略</p>
+                <p className="text-sm text-slate-500">
+                  共 {factors.length} 個策略
+                  {catalogOrigin === "listing" && "（未找到 manifest，改為掃描資料夾）"}
+                </p>
               </div>
 
               <div className="flex gap-2">
                 <button
-                  onClick={() => setSelectedFactors(factors)}
+                  onClick={() => setSelectedFactors(factors.filter(hasReturns))}
                   className="rounded-lg bg-slate-100 px-3 py-1.5 text-xs font-bold text-slate-600 hover:bg-slate-200"
                 >
                   全選
@@ -523,35 +591,56 @@ export default function FactorLibraryPage() {
                 <div className="p-3 text-sm text-slate-400">資料讀取中...</div>
               ) : factors.length === 0 ? (
                 <div className="p-3 text-sm text-slate-400">
-                  沒有掃描到策略。請確認 strategy_data/returns 裡有 JSON。
+                  沒有找到策略。請確認 strategy_data/manifest.json 或 strategy_data/returns 裡有 JSON。
                 </div>
               ) : (
-                factors.map((factor) => (
-                  <div
-                    key={factor}
-                    draggable
-                    onDragStart={(e) => e.dataTransfer.setData("text/plain", factor)}
-                    className="mb-2 flex items-center justify-between rounded-lg bg-white px-3 py-2 shadow-sm border border-slate-100 cursor-move"
-                  >
-                    <label className="flex items-center gap-3">
-                      <input
-                        type="checkbox"
-                        checked={selectedFactors.includes(factor)}
-                        onChange={() => toggleSelectedFactor(factor)}
-                        className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
-                      />
+                groupedFactors.map(([category, names]) => (
+                  <div key={`cat-${category}`} className="mb-3 last:mb-0">
+                    {groupedFactors.length > 1 && (
+                      <div className="mb-1.5 px-1 text-xs font-bold uppercase tracking-wider text-slate-400">
+                        {category || "未分類"}
+                      </div>
+                    )}
 
-                      <span className="text-sm font-medium text-slate-700">
-                        {getFactorLabel(factor)}
-                      </span>
-                    </label>
+                    {names.map((factor) => (
+                      <div
+                        key={factor}
+                        draggable={hasHoldings(factor)}
+                        onDragStart={(e) => e.dataTransfer.setData("text/plain", factor)}
+                        className={`mb-2 flex items-center justify-between rounded-lg bg-white px-3 py-2 shadow-sm border border-slate-100 ${
+                          hasHoldings(factor) ? "cursor-move" : ""
+                        }`}
+                      >
+                        <label className="flex items-center gap-3">
+                          <input
+                            type="checkbox"
+                            checked={selectedFactors.includes(factor)}
+                            disabled={!hasReturns(factor)}
+                            onChange={() => toggleSelectedFactor(factor)}
+                            className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-40"
+                          />
+
+                          <span className="text-sm font-medium text-slate-700">
+                            {getStrategyLabel(factor)}
+                          </span>
+
+                          {!hasReturns(factor) && (
+                            <span className="rounded bg-amber-50 px-1.5 py-0.5 text-[11px] font-bold text-amber-600">缺報酬</span>
+                          )}
+                          {!hasHoldings(factor) && (
+                            <span className="rounded bg-amber-50 px-1.5 py-0.5 text-[11px] font-bold text-amber-600">缺持股</span>
+                          )}
+                        </label>
 
-                    <button
-                      onClick={() => addToBasket(factor)}
-                      className="rounded-md bg-indigo-50 px-2 py-1 text-xs font-bold text-indigo-600 hover:bg-indigo-100"
-                    >
-                      加入
-                    </button>
+                        <button
+                          onClick={() => addToBasket(factor)}
+                          disabled={!hasHoldings(factor)}
+                          className="rounded-md bg-indigo-50 px-2 py-1 text-xs font-bold text-indigo-600 hover:bg-indigo-100 disabled:opacity-40 disabled:hover:bg-indigo-50"
+                        >
+                          加入
+                        </button>
+                      </div>
+                    ))}
                   </div>
                 ))
               )}
@@ -622,8 +711,22 @@ export default function FactorLibraryPage() {
         </section>
 
         <section className="mb-8 rounded-2xl border border-slate-200 bg-white shadow-sm overflow-hidden">
-          <div className="border-b border-slate-100 bg-slate-50/60 px-6 py-4">
+          <div className="flex items-center justify-between gap-3 border-b border-slate-100 bg-slate-50/60 px-6 py-4">
             <h2 className="text-lg font-bold text-slate-900">策略績效表</h2>
+            <div className="flex items-center gap-3">
+              <BenchmarkSelect options={benchOptions} value={benchmark} onChange={setBenchmark} getLabel={getFactorLabel} />
+              <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600 whitespace-nowrap">
+                <input
+                  type="checkbox"
+                  className="h-3.5 w-3.5 rounded border-slate-300"
+                  checked={showSignificance}
+                  onChange={(e) => setShowSignificance(e.target.checked)}
+                />
+                統計顯著性
+              </label>
+              <CostModelPicker value={costModel} onChange={setCostModel} />
+              <MetricColumnPicker selected={metricCols.keys} onChange={metricCols.setKeys} />
+            </div>
           </div>
 
           <div className="overflow-x-auto">
@@ -631,48 +734,41 @@ export default function FactorLibraryPage() {
               <thead className="border-b border-slate-200 bg-white text-slate-500">
                 <tr>
                   <th className="px-6 py-3 font-semibold">策略</th>
-                  <th className="px-6 py-3 font-semibold">區間報酬</th>
-                  <th className="px-6 py-3 font-semibold">年化報酬</th>
-                  <th className="px-6 py-3 font-semibold">年化波動</th>
-                  <th className="px-6 py-3 font-semibold">Sharpe</th>
-                  <th className="px-6 py-3 font-semibold">最大回撤</th>
+                  {metricCols.columns.map((c) => (
+                    <th key={c.key} className="px-6 py-3 font-semibold whitespace-nowrap" title={c.hint}>
+                      {c.label}
+                    </th>
+                  ))}
+                  {significanceCols.map((c) => (
+                    <th key={c.key} className="px-6 py-3 font-semibold whitespace-nowrap bg-slate-50" title={c.hint}>
+                      {c.label}
+                    </th>
+                  ))}
                   <th className="px-6 py-3 font-semibold">持股</th>
                 </tr>
               </thead>
 
               <tbody className="divide-y divide-slate-100">
-                {metrics.map((row) => (
+                {metrics.map((row, i) => (
                   <React.Fragment key={row.factor}>
                     <tr className="hover:bg-indigo-50/40">
                       <td className="px-6 py-3 font-bold text-slate-900">
-                        {getFactorLabel(row.factor)}
+                        {getStrategyLabel(row.factor)}
                       </td>
 
-                      <td
-                        className={`px-6 py-3 font-bold ${
-                          row.periodReturn >= 0 ? "text-emerald-600" : "text-rose-600"
-                        }`}
-                      >
-                        {fmtPct(row.periodReturn)}
-                      </td>
-
-                      <td
-                        className={`px-6 py-3 font-bold ${
-                          row.annReturn >= 0 ? "text-emerald-600" : "text-rose-600"
-                        }`}
-                      >
-                        {fmtPct(row.annReturn)}
-                      </td>
-
-                      <td className="px-6 py-3 text-slate-600">{fmtPct(row.annVol)}</td>
-
-                      <td className="px-6 py-3 text-slate-600">
-                        {row.sharpe === null ? "-" : row.sharpe.toFixed(2)}
-                      </td>
-
-                      <td className="px-6 py-3 font-medium text-rose-600">
-                        {fmtPct(row.maxdd)}
-                      </td>
+                      {metricCols.columns.map((c) => (
+                        <td key={c.key} className={`px-6 py-3 whitespace-nowrap ${metricToneClass(c.tone, row[c.key])}`}>
+                          {formatMetric(c.format, row[c.key])}
+                        </td>
+                      ))}
+                      {significanceCols.map((c) => {
+                        const v = significance?.gross[i]?.[c.key];
+                        return (
+                          <td key={c.key} className={`px-6 py-3 whitespace-nowrap bg-slate-50/60 ${metricToneClass(c.tone, v)}`}>
+                            {formatMetric(c.format, v)}
+                          </td>
+                        );
+                      })}
 
                       <td className="px-6 py-3">
                         <button
@@ -691,21 +787,106 @@ export default function FactorLibraryPage() {
                       </td>
                     </tr>
 
+                    {netMetrics[row.factor] && (
+                      <tr className="bg-amber-50/30 hover:bg-indigo-50/40">
+                        <td className="px-6 py-3 pl-9 font-medium text-slate-500 whitespace-nowrap">
+                          ↳ 扣成本
+                          <span className="ml-1.5 text-[11px] text-slate-400">
+                            {(2 * costModel.feeBps + costModel.sellTaxBps).toFixed(1)} bps / 來回
+                          </span>
+                        </td>
+                        {metricCols.columns.map((c) => {
+                          const v = netMetrics[row.factor][c.key];
+                          return (
+                            <td key={c.key} className={`px-6 py-3 whitespace-nowrap ${metricToneClass(c.tone, v)}`}>
+                              {formatMetric(c.format, v)}
+                            </td>
+                          );
+                        })}
+                        {significanceCols.map((c) => {
+                          const v = significance?.net[row.factor]?.[c.key];
+                          return (
+                            <td key={c.key} className={`px-6 py-3 whitespace-nowrap bg-slate-50/60 ${metricToneClass(c.tone, v)}`}>
+                              {formatMetric(c.format, v)}
+                            </td>
+                          );
+                        })}
+                        <td />
+                      </tr>
+                    )}
+
                     {expandedFactor === row.factor && (
                       <tr>
-                        <td colSpan={7} className="bg-slate-50 px-6 py-5">
+                        <td colSpan={metricCols.columns.length + significanceCols.length + 2} className="bg-slate-50 px-6 py-5">
+                          {returnsMap[row.factor] && (
+                            <div className="mb-6">
+                              <h3 className="mb-3 font-bold text-slate-900">{getStrategyLabel(row.factor)} 月報酬表</h3>
+                              <MonthlyReturnGrid
+                                name={row.factor}
+                                ret={returnsMap[row.factor]}
+                                bench={benchSeries}
+                                benchLabel={getFactorLabel(benchmark)}
+                                compact
+                              />
+                            </div>
+                          )}
+
+                          {turnoverMap[row.factor]?.length ? (
+                            <div className="mb-6">
+                              <h3 className="mb-3 font-bold text-slate-900">{getStrategyLabel(row.factor)} 逐月換手率</h3>
+                              <TurnoverPanel
+                                series={[{ name: row.factor, label: getStrategyLabel(row.factor), points: turnoverMap[row.factor] }]}
+                                model={costModel}
+                                height={220}
+                              />
+                            </div>
+                          ) : null}
+
+                          {sectors && holdingsMap[row.factor]?.months.length ? (
+                            <div className="mb-6">
+                              <h3 className="mb-3 font-bold text-slate-900">{getStrategyLabel(row.factor)} 產業配置</h3>
+                              <div className="rounded-xl border border-slate-200 bg-white p-4">
+                                <SectorPanel
+                                  holdings={holdingsMap[row.factor]}
+                                  sectors={sectors}
+                                  month={selectedMonth}
+                                  benchOptions={benchOptions}
+                                  benchName={sectorBench}
+                                  onBenchChange={setSectorBench}
+                                  bench={sectorBenchHoldings}
+                                  height={260}
+                                />
+                              </div>
+                            </div>
+                          ) : null}
+
                           <div className="mb-4 flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
                             <div>
                               <h3 className="font-bold text-slate-900">
-                                {getFactorLabel(row.factor)} 月份持股
+                                {getStrategyLabel(row.factor)} 月份持股
                               </h3>
 
                               <p className="text-sm text-slate-500">
                                 可切換歷史月份，查看當月策略選股
+                                {expandedConcentration &&
+                                  `；前十大權重 ${(expandedConcentration.top10 * 100).toFixed(1)}%、HHI ${expandedConcentration.hhi.toFixed(
+                                    3
+                                  )}、有效檔數 ${expandedConcentration.effectiveN.toFixed(1)}`}
                               </p>
                             </div>
 
                             <div className="flex items-center gap-3">
+                              {holdingsMap[row.factor] && <HoldingsViewToggle value={holdingsView} onChange={setHoldingsView} />}
+
+                              {sectors && holdingsView === "list" && holdingsForExpanded.length > 0 && (
+                                <SectorFilter
+                                  tickers={holdingsForExpanded}
+                                  sectors={sectors}
+                                  value={sectorFilter}
+                                  onChange={setSectorFilter}
+                                />
+                              )}
+
                               <select
                                 value={selectedMonth}
                                 onChange={(e) => setSelectedMonth(e.target.value)}
@@ -719,7 +900,7 @@ export default function FactorLibraryPage() {
                               </select>
 
                               <button
-                                onClick={() => copyStocks(holdingsForExpanded)}
+                                onClick={() => copyStocks(shownExpanded)}
                                 className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-xs font-bold text-slate-600 hover:bg-slate-100"
                               >
                                 複製
@@ -727,15 +908,25 @@ export default function FactorLibraryPage() {
                             </div>
                           </div>
 
-                          {holdingsForExpanded.length ? (
+                          {holdingsView === "diff" && holdingsMap[row.factor] && selectedMonth ? (
+                            <div className="rounded-xl border border-slate-200 bg-white p-4">
+                              <HoldingsDiffPanel holdings={holdingsMap[row.factor]} month={selectedMonth} stockNames={stockNames} />
+                            </div>
+                          ) : holdingsForExpanded.length ? (
                             <div className="flex flex-wrap gap-2">
-                              {holdingsForExpanded.map((stock) => (
-                                <span
+                              {shownExpanded.map((stock) => (
+                                <Link
                                   key={`${row.factor}-${selectedMonth}-${stock}`}
-                                  className="rounded-full bg-white px-3 py-1 text-sm font-bold text-slate-700 border border-slate-200 shadow-sm"
+                                  href={`/stock/${encodeURIComponent(stock)}`}
+                                  className="rounded-full bg-white px-3 py-1 text-sm font-bold text-slate-700 border border-slate-200 shadow-sm hover:border-indigo-300 hover:text-indigo-700"
                                 >
                                   {getStockDisplay(stock)}
-                                </span>
+                                  {expandedWeights && (
+                                    <span className="ml-1.5 font-mono text-xs text-indigo-600">
+                                      {((expandedWeights[stock] ?? 0) * 100).toFixed(2)}%
+                                    </span>
+                                  )}
+                                </Link>
                               ))}
                             </div>
                           ) : (
@@ -751,7 +942,7 @@ export default function FactorLibraryPage() {
 
                 {!metrics.length && (
                   <tr>
-                    <td colSpan={7} className="px-6 py-10 text-center text-slate-400">
+                    <td colSpan={metricCols.columns.length + significanceCols.length + 2} className="px-6 py-10 text-center text-slate-400">
                       尚未選擇策略
                     </td>
                   </tr>
@@ -759,6 +950,11 @@ export default function FactorLibraryPage() {
               </tbody>
             </table>
           </div>
+          {significance && metrics.length > 0 && (
+            <p className="border-t border-slate-100 px-6 py-3 text-xs text-slate-400">
+              信賴區間為 500 次區塊 bootstrap（平均 20 個交易日）的 95% 區間；DSR 以表中 {metrics.length} 個策略作為比較次數
+            </p>
+          )}
         </section>
 
         <section className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -860,7 +1056,7 @@ export default function FactorLibraryPage() {
               <div className="max-h-[320px] overflow-y-auto space-y-2 pr-1">
                 {factors.length === 0 ? (
                   <div className="rounded-xl border border-dashed border-slate-300 bg-white p-5 text-center text-sm text-slate-400">
-                    尚未掃描到策略
+                    尚未載入策略
                   </div>
                 ) : (
                   factors.map((factor) => (
@@ -876,12 +1072,13 @@ export default function FactorLibraryPage() {
                         <input
                           type="checkbox"
                           checked={basketFactors.includes(factor)}
+                          disabled={!hasHoldings(factor)}
                           onChange={() => toggleBasketFactor(factor)}
-                          className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500"
+                          className="h-4 w-4 rounded border-slate-300 text-indigo-600 focus:ring-indigo-500 disabled:opacity-40"
                         />
 
                         <span className="text-sm font-bold text-slate-700">
-                          {getFactorLabel(factor)}
+                          {getStrategyLabel(factor)}
                         </span>
                       </div>
 
@@ -892,7 +1089,7 @@ export default function FactorLibraryPage() {
                             : "bg-slate-100 text-slate-400"
                         }`}
                       >
-                        {basketFactors.includes(factor) ? "已加入" : "未選"}
+                        {!hasHoldings(factor) ? "缺持股" : basketFactors.includes(factor) ? "已加入" : "未選"}
                       </span>
                     </label>
                   ))
@@ -910,15 +1107,27 @@ export default function FactorLibraryPage() {
 
                     <p className="text-sm text-slate-500">
                       使用 {basketFactors.length} 個策略計算，共 {intersectionOrUnion.length} 檔股票
+                      {basketSummary && `；${basketSummary}`}
                     </p>
                   </div>
 
-                  <button
-                    onClick={() => copyStocks(intersectionOrUnion)}
-                    className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-bold text-slate-600 hover:bg-slate-100"
-                  >
-                    複製結果
-                  </button>
+                  <div className="flex items-center gap-2">
+                    {sectors && intersectionOrUnion.length > 0 && (
+                      <SectorFilter
+                        tickers={intersectionOrUnion}
+                        sectors={sectors}
+                        value={basketSectorFilter}
+                        onChange={setBasketSectorFilter}
+                      />
+                    )}
+
+                    <button
+                      onClick={() => copyStocks(shownBasket)}
+                      className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-bold text-slate-600 hover:bg-slate-100"
+                    >
+                      複製結果
+                    </button>
+                  </div>
                 </div>
 
                 {basketFactors.length > 0 && (
@@ -930,7 +1139,7 @@ export default function FactorLibraryPage() {
                         className="rounded-full bg-indigo-600 px-4 py-2 text-sm font-bold text-white shadow-sm hover:bg-rose-600"
                         title="點擊移除"
                       >
-                        {getFactorLabel(factor)} ×
+                        {getStrategyLabel(factor)} ×
                       </button>
                     ))}
                   </div>
@@ -938,13 +1147,19 @@ export default function FactorLibraryPage() {
 
                 {intersectionOrUnion.length ? (
                   <div className="flex flex-wrap gap-2">
-                    {intersectionOrUnion.map((stock) => (
-                      <span
+                    {shownBasket.map((stock) => (
+                      <Link
                         key={`result-${stock}`}
-                        className="rounded-full border border-slate-200 bg-white px-3 py-1 text-sm font-bold text-slate-700 shadow-sm"
+                        href={`/stock/${encodeURIComponent(stock)}`}
+                        className="rounded-full border border-slate-200 bg-white px-3 py-1 text-sm font-bold text-slate-700 shadow-sm hover:border-indigo-300 hover:text-indigo-700"
                       >
                         {getStockDisplay(stock)}
-                      </span>
+                        {basketWeights && (
+                          <span className="ml-1.5 font-mono text-xs text-indigo-600">
+                            {((basketWeights[stock] ?? 0) * 100).toFixed(2)}%
+                          </span>
+                        )}
+                      </Link>
                     ))}
                   </div>
                 ) : (
@@ -956,6 +1171,17 @@ export default function FactorLibraryPage() {
             </div>
           </div>
         </section>
+
+        <section className="mt-8 rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="mb-6">
+            <h2 className="text-xl font-bold text-slate-900">持股重疊矩陣</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              比較所有因子（data/holdings）與策略（strategy_data/holdings）同一月份的選股相似度，找出重複的策略
+            </p>
+          </div>
+
+          <OverlapMatrixPanel series={overlapHoldings} />
+        </section>
       </main>
     </div>
   );
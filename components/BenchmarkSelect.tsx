@@ -0,0 +1,33 @@
+"use client";
+
+import React from "react";
+import { orderBenchmarkOptions } from "@/lib/analytics/benchmark";
+
+type Props = {
+  options: string[];
+  value: string;
+  onChange: (name: string) => void;
+  getLabel?: (name: string) => string;
+  className?: string;
+};
+
+// 相對基準指標用的基準下拉選單；空字串代表不比較
+export default function BenchmarkSelect({ options, value, onChange, getLabel = (n) => n, className = "" }: Props) {
+  return (
+    <label className={`flex items-center gap-2 text-xs font-bold text-slate-500 ${className}`}>
+      基準
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="rounded-lg border-slate-200 bg-white py-1 text-xs font-medium text-slate-700 focus:border-blue-500 focus:ring-blue-500"
+      >
+        <option value="">不比較</option>
+        {orderBenchmarkOptions(options).map((f) => (
+          <option key={f} value={f}>
+            {getLabel(f)}
+          </option>
+        ))}
+      </select>
+    </label>
+  );
+}
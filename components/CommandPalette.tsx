@@ -0,0 +1,146 @@
+"use client";
+
+import React, { useEffect, useMemo, useRef, useState } from "react";
+import { useRouter } from "next/navigation";
+import { loadAllHoldings, loadFactorList, loadStockNames, loadStrategyCatalog } from "@/lib/data";
+import { buildSearchIndex, searchItems, SEARCH_KIND_LABELS, type SearchItem, type SearchKind } from "@/lib/search";
+
+const OPEN_EVENT = "command-palette:open";
+
+/** 給頁首的搜尋按鈕使用 */
+export function openCommandPalette() {
+  window.dispatchEvent(new Event(OPEN_EVENT));
+}
+
+const KIND_STYLE: Record<SearchKind, string> = {
+  factor: "bg-blue-100 text-blue-700",
+  strategy: "bg-indigo-100 text-indigo-700",
+  stock: "bg-emerald-100 text-emerald-700",
+};
+
+// Ctrl/Cmd + K 全站搜尋：因子、策略、個股；第一次打開時才讀取索引
+export default function CommandPalette() {
+  const router = useRouter();
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+  const [active, setActive] = useState(0);
+  const [index, setIndex] = useState<SearchItem[] | null>(null);
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if ((e.ctrlKey || e.metaKey) && e.key.toLowerCase() === "k") {
+        e.preventDefault();
+        setOpen((v) => !v);
+      } else if (e.key === "Escape") {
+        setOpen(false);
+      }
+    };
+    const onOpen = () => setOpen(true);
+    window.addEventListener("keydown", onKey);
+    window.addEventListener(OPEN_EVENT, onOpen);
+    return () => {
+      window.removeEventListener("keydown", onKey);
+      window.removeEventListener(OPEN_EVENT, onOpen);
+    };
+  }, []);
+
+  useEffect(() => {
+    if (!open || index) return;
+    (async () => {
+      const [factors, catalog, names, sources] = await Promise.all([
+        loadFactorList("全站搜尋").catch((): string[] => []),
+        loadStrategyCatalog("全站搜尋").catch(() => null),
+        loadStockNames("全站搜尋").catch(() => ({})),
+        loadAllHoldings("全站搜尋"),
+      ]);
+      // 持股檔出現過的代號（沒有公司名稱的也要搜得到）
+      const tickers = sources.flatMap((src) => Object.values(src.holdings.holdings).flat().map(String));
+      setIndex(buildSearchIndex(factors, catalog?.strategies ?? [], names, tickers));
+    })();
+  }, [open, index]);
+
+  useEffect(() => {
+    if (open) inputRef.current?.focus();
+  }, [open]);
+
+  const results = useMemo(() => (index ? searchItems(index, query) : []), [index, query]);
+
+  const close = () => {
+    setOpen(false);
+    setQuery("");
+    setActive(0);
+  };
+
+  const go = (item: SearchItem | undefined) => {
+    if (!item) return;
+    close();
+    router.push(item.href);
+  };
+
+  if (!open) return null;
+
+  return (
+    <div className="fixed inset-0 z-[70] flex items-start justify-center bg-slate-900/30 px-4 pt-[12vh] backdrop-blur-sm" onClick={close}>
+      <div
+        className="w-full max-w-xl overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-2xl"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center gap-3 border-b border-slate-100 px-4 py-3">
+          <input
+            ref={inputRef}
+            value={query}
+            onChange={(e) => {
+              setQuery(e.target.value);
+              setActive(0);
+            }}
+            onKeyDown={(e) => {
+              if (e.key === "ArrowDown") {
+                e.preventDefault();
+                setActive((i) => Math.min(i + 1, results.length - 1));
+              } else if (e.key === "ArrowUp") {
+                e.preventDefault();
+                setActive((i) => Math.max(i - 1, 0));
+              } else if (e.key === "Enter") {
+                e.preventDefault();
+                go(results[active]);
+              }
+            }}
+            placeholder="搜尋因子、策略、股票代號或公司名稱"
+            className="w-full border-0 p-0 text-base text-slate-800 placeholder:text-slate-400 focus:ring-0"
+          />
+          <kbd className="shrink-0 rounded border border-slate-200 bg-slate-50 px-1.5 py-0.5 text-[10px] font-bold text-slate-400">
+            ESC
+          </kbd>
+        </div>
+
+        <div className="max-h-[50vh] overflow-y-auto py-1">
+          {!index ? (
+            <div className="px-4 py-8 text-center text-sm text-slate-400">讀取索引中…</div>
+          ) : !query.trim() ? (
+            <div className="px-4 py-8 text-center text-sm text-slate-400">
+              共 {index.length} 筆可搜尋項目；↑↓ 選擇，Enter 前往
+            </div>
+          ) : results.length === 0 ? (
+            <div className="px-4 py-8 text-center text-sm text-slate-400">找不到「{query}」</div>
+          ) : (
+            results.map((item, i) => (
+              <button
+                key={`${item.kind}-${item.href}`}
+                onClick={() => go(item)}
+                onMouseEnter={() => setActive(i)}
+                className={`flex w-full items-center gap-3 px-4 py-2 text-left ${i === active ? "bg-blue-50" : ""}`}
+              >
+                <span className={`shrink-0 rounded px-1.5 py-0.5 text-[11px] font-bold ${KIND_STYLE[item.kind]}`}>
+                  {SEARCH_KIND_LABELS[item.kind]}
+                </span>
+                <span className={`font-bold text-slate-800 ${item.kind === "stock" ? "font-mono" : ""}`}>{item.title}</span>
+                {item.subtitle && <span className="truncate text-sm text-slate-500">{item.subtitle}</span>}
+              </button>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
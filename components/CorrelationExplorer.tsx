@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import {
+  FREQUENCY_LABELS,
+  correlationMatrix,
+  rollingCorrelation,
+  type ReturnFrequency,
+} from "@/lib/analytics/correlation";
+import { ROLLING_WINDOWS } from "@/lib/analytics/rolling";
+import type { LabeledReturns } from "@/lib/analytics/series";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+type Props = {
+  series: LabeledReturns[];
+};
+
+// 相關係數熱力圖；點格子看該組合的滾動相關
+export default function CorrelationExplorer({ series }: Props) {
+  const [freq, setFreq] = useState<ReturnFrequency>("daily");
+  const [pair, setPair] = useState<[string, string] | null>(null);
+  const [win, setWin] = useState(126);
+
+  const corr = useMemo(() => correlationMatrix(series, freq), [series, freq]);
+  const labels = series.map((s) => s.label);
+
+  const pairSeries = useMemo(() => {
+    if (!pair) return null;
+    const a = series.find((s) => s.name === pair[0]);
+    const b = series.find((s) => s.name === pair[1]);
+    if (!a || !b) return null;
+    return { a, b, rolled: rollingCorrelation(a, b, win) };
+  }, [series, pair, win]);
+
+  if (series.length < 2) {
+    return <div className="text-slate-400 text-sm">至少選擇兩個因子或策略</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs text-slate-500">
+          共同期間 {corr.n} 個{FREQUENCY_LABELS[freq]}；點選格子查看滾動相關
+        </p>
+        <div className="flex rounded-lg border border-slate-200 bg-slate-50 p-0.5">
+          {(Object.keys(FREQUENCY_LABELS) as ReturnFrequency[]).map((f) => (
+            <button
+              key={f}
+              onClick={() => setFreq(f)}
+              className={`rounded-md px-3 py-1 text-xs font-bold ${
+                freq === f ? "bg-white text-blue-700 shadow-sm" : "text-slate-500 hover:text-slate-700"
+              }`}
+            >
+              {FREQUENCY_LABELS[f]}報酬
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="w-full" style={{ height: Math.max(320, 60 + series.length * 36) }}>
+        <Plot
+          data={[
+            {
+              type: "heatmap",
+              // 以 index 當座標，避免同名標籤（因子與策略）互相覆蓋
+              x: labels.map((_, i) => i),
+              y: labels.map((_, i) => i),
+              z: corr.matrix,
+              zmin: -1,
+              zmax: 1,
+              colorscale: [
+                [0, "#2563eb"],
+                [0.5, "#f8fafc"],
+                [1, "#e11d48"],
+              ],
+              text: corr.matrix.map((row, i) =>
+                row.map((v, j) => `${labels[i]} × ${labels[j]}<br>${v === null ? "-" : v.toFixed(2)}`)
+              ),
+              texttemplate: "%{z:.2f}",
+              hovertemplate: "%{text}<extra></extra>",
+              showscale: true,
+            },
+          ]}
+          layout={{
+            autosize: true,
+            margin: { l: 120, r: 20, t: 10, b: 110 },
+            xaxis: { tickvals: labels.map((_, i) => i), ticktext: labels, tickangle: -40 },
+            yaxis: { tickvals: labels.map((_, i) => i), ticktext: labels, autorange: "reversed" },
+          }}
+          onClick={(e) => {
+            const p = e?.points?.[0];
+            if (!p) return;
+            const i = Number(p.y);
+            const j = Number(p.x);
+            if (i === j || !series[i] || !series[j]) return;
+            setPair([series[i].name, series[j].name]);
+          }}
+          style={{ width: "100%", height: "100%" }}
+          useResizeHandler
+          config={{ displayModeBar: false }}
+        />
+      </div>
+
+      {pairSeries && (
+        <div className="rounded-xl border border-slate-200 p-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+            <h4 className="text-sm font-bold text-slate-700">
+              滾動相關：{pairSeries.a.label} × {pairSeries.b.label}
+            </h4>
+            <div className="flex items-center gap-2">
+              <div className="flex rounded-lg border border-slate-200 bg-slate-50 p-0.5">
+                {ROLLING_WINDOWS.map((w) => (
+                  <button
+                    key={w}
+                    onClick={() => setWin(w)}
+                    className={`rounded-md px-2.5 py-1 text-xs font-bold ${
+                      win === w ? "bg-white text-blue-700 shadow-sm" : "text-slate-500 hover:text-slate-700"
+                    }`}
+                  >
+                    {w} 日
+                  </button>
+                ))}
+              </div>
+              <button
+                onClick={() => setPair(null)}
+                className="rounded-lg px-2 py-1 text-xs font-bold text-slate-400 hover:bg-slate-100 hover:text-slate-600"
+              >
+                關閉
+              </button>
+            </div>
+          </div>
+          {pairSeries.rolled.dates.length === 0 ? (
+            <div className="py-8 text-center text-sm text-slate-400">共同資料不足 {win} 個交易日</div>
+          ) : (
+            <div className="w-full h-[260px]">
+              <Plot
+                data={[
+                  {
+                    x: pairSeries.rolled.dates,
+                    y: pairSeries.rolled.values,
+                    type: "scatter",
+                    mode: "lines",
+                    line: { color: "#0891b2", width: 1.5 },
+                    hovertemplate: "%{x}<br>%{y:.2f}<extra></extra>",
+                  },
+                ]}
+                layout={{
+                  autosize: true,
+                  margin: { l: 45, r: 20, t: 10, b: 30 },
+                  showlegend: false,
+                  xaxis: { gridcolor: "#f1f5f9" },
+                  yaxis: { gridcolor: "#f1f5f9", range: [-1, 1], tickformat: ".1f" },
+                }}
+                style={{ width: "100%", height: "100%" }}
+                useResizeHandler
+                config={{ displayModeBar: false }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+"use client";
+
+import React, { useState } from "react";
+import { usePersistentState } from "@/lib/hooks/use-persistent-state";
+import { DEFAULT_COST_MODEL, type CostModel } from "@/lib/analytics/turnover";
+
+/** 交易成本設定：首頁與策略庫共用同一組 */
+export function useCostModel() {
+  return usePersistentState<CostModel>("cost-model", DEFAULT_COST_MODEL);
+}
+
+type Props = {
+  value: CostModel;
+  onChange: (model: CostModel) => void;
+};
+
+// 績效表右上角的「交易成本」下拉選單
+export default function CostModelPicker({ value, onChange }: Props) {
+  const [open, setOpen] = useState(false);
+  const roundTrip = 2 * value.feeBps + value.sellTaxBps;
+
+  const numberInput = (key: "feeBps" | "sellTaxBps", label: string) => (
+    <label className="flex items-center justify-between gap-3 text-sm text-slate-700">
+      <span>{label}</span>
+      <span className="relative w-24">
+        <input
+          type="number"
+          min={0}
+          step="0.25"
+          className="w-full rounded-lg border-slate-200 py-1 pl-2 pr-9 text-sm text-slate-700"
+          value={value[key]}
+          onChange={(e) => onChange({ ...value, [key]: Math.max(0, parseFloat(e.target.value || "0")) })}
+        />
+        <span className="absolute right-2 top-1.5 text-xs text-slate-400">bps</span>
+      </span>
+    </label>
+  );
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1.5 rounded-lg border px-3 py-1.5 text-xs font-bold whitespace-nowrap ${
+          value.enabled
+            ? "border-amber-200 bg-amber-50 text-amber-700 hover:bg-amber-100"
+            : "border-slate-200 bg-white text-slate-600 hover:bg-slate-50"
+        }`}
+      >
+        交易成本{value.enabled && ` ${roundTrip.toFixed(1)} bps`}
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 z-40 mt-2 w-72 space-y-3 rounded-xl border border-slate-200 bg-white p-4 shadow-xl">
+            <label className="flex items-center gap-2 text-sm font-bold text-slate-700">
+              <input
+                type="checkbox"
+                className="h-3.5 w-3.5 rounded border-slate-300 text-blue-600"
+                checked={value.enabled}
+                onChange={(e) => onChange({ ...value, enabled: e.target.checked })}
+              />
+              顯示扣除成本後的績效
+            </label>
+            {numberInput("feeBps", "手續費（買賣各）")}
+            {numberInput("sellTaxBps", "證交稅（賣出）")}
+            <p className="text-[11px] leading-relaxed text-slate-400">
+              依每月持股權重（未提供權重時為等權重）計算單邊換手率，換倉成本 = 換手率 × 來回 {roundTrip.toFixed(2)} bps，
+              於每月第一個交易日扣除。
+            </p>
+            <div className="flex justify-end border-t border-slate-100 pt-2">
+              <button
+                onClick={() => onChange({ ...DEFAULT_COST_MODEL, enabled: value.enabled })}
+                className="rounded-md px-2 py-1 text-xs font-bold text-slate-500 hover:bg-slate-100"
+              >
+                重設預設
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
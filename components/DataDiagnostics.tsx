@@ -0,0 +1,120 @@
+"use client";
+
+import React, { useState, useSyncExternalStore } from "react";
+import { getDataSource } from "@/lib/data-source";
+import { clearDatasetCache } from "@/lib/dataset-cache";
+import {
+  getDiagnosticsSnapshot,
+  getServerDiagnosticsSnapshot,
+  subscribeDiagnostics,
+  type FileStatus,
+} from "@/lib/diagnostics";
+
+const STATUS_STYLE: Record<FileStatus, { dot: string; text: string; label: string }> = {
+  ok: { dot: "bg-emerald-500", text: "text-emerald-700", label: "正常" },
+  warning: { dot: "bg-amber-500", text: "text-amber-700", label: "有問題" },
+  error: { dot: "bg-rose-500", text: "text-rose-700", label: "失敗" },
+};
+
+// 右下角的資料診斷按鈕與面板：列出本頁讀過的每個檔案、schema 問題與受影響區塊
+export default function DataDiagnostics() {
+  const files = useSyncExternalStore(subscribeDiagnostics, getDiagnosticsSnapshot, getServerDiagnosticsSnapshot);
+  const [open, setOpen] = useState(false);
+  const [onlyProblems, setOnlyProblems] = useState(false);
+
+  const nWarn = files.filter((f) => f.status === "warning").length;
+  const nErr = files.filter((f) => f.status === "error").length;
+  const shown = onlyProblems ? files.filter((f) => f.status !== "ok") : files;
+
+  return (
+    <div className="fixed bottom-4 right-4 z-[60] flex flex-col items-end gap-2 text-sm">
+      {open && (
+        <div className="w-[min(92vw,560px)] max-h-[70vh] overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-2xl flex flex-col">
+          <div className="flex items-start justify-between gap-3 border-b border-slate-100 bg-slate-50 px-5 py-4">
+            <div>
+              <h2 className="text-base font-bold text-slate-900">資料診斷</h2>
+              <p className="text-xs text-slate-500 mt-0.5">來源：{getDataSource().label}</p>
+            </div>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600">
+                <input
+                  type="checkbox"
+                  className="h-3.5 w-3.5 rounded border-slate-300"
+                  checked={onlyProblems}
+                  onChange={(e) => setOnlyProblems(e.target.checked)}
+                />
+                只看問題
+              </label>
+              <button
+                onClick={async () => {
+                  await clearDatasetCache();
+                  window.location.reload();
+                }}
+                className="rounded-lg border border-slate-200 bg-white px-2.5 py-1 text-xs font-bold text-slate-600 hover:bg-slate-100"
+                title="清除記憶體與 IndexedDB 快取後重新整理"
+              >
+                清除快取
+              </button>
+            </div>
+          </div>
+
+          <div className="overflow-y-auto divide-y divide-slate-100">
+            {shown.length === 0 ? (
+              <div className="px-5 py-8 text-center text-slate-400">
+                {files.length ? "沒有發現問題" : "尚未讀取任何資料"}
+              </div>
+            ) : (
+              shown.map((f) => {
+                const st = STATUS_STYLE[f.status];
+                return (
+                  <div key={f.path} className="px-5 py-3">
+                    <div className="flex items-center gap-2">
+                      <span className={`h-2 w-2 shrink-0 rounded-full ${st.dot}`} />
+                      <span className="font-mono text-xs font-medium text-slate-800 break-all">{f.path}</span>
+                      <span className={`ml-auto shrink-0 text-xs font-bold ${st.text}`}>{st.label}</span>
+                    </div>
+
+                    {f.sections.length > 0 && (
+                      <div className="mt-1.5 flex flex-wrap gap-1 pl-4">
+                        {f.sections.map((s) => (
+                          <span key={s} className="rounded bg-slate-100 px-1.5 py-0.5 text-[11px] font-medium text-slate-500">
+                            {s}
+                          </span>
+                        ))}
+                      </div>
+                    )}
+
+                    {f.error && <div className="mt-1.5 pl-4 text-xs text-rose-600 whitespace-pre-wrap break-all">{f.error}</div>}
+
+                    {f.issues.length > 0 && (
+                      <ul className="mt-1.5 space-y-0.5 pl-4 text-xs text-slate-600">
+                        {f.issues.map((issue, i) => (
+                          <li key={i}>
+                            <span className="font-mono text-slate-400">{issue.path}</span>　{issue.message}
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })
+            )}
+          </div>
+        </div>
+      )}
+
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-2 rounded-full border border-slate-200 bg-white/90 px-3.5 py-2 text-xs font-bold text-slate-600 shadow-lg backdrop-blur hover:bg-white"
+      >
+        <span
+          className={`h-2 w-2 rounded-full ${nErr ? "bg-rose-500" : nWarn ? "bg-amber-500" : "bg-emerald-500"}`}
+        />
+        資料診斷
+        <span className="text-slate-400">
+          {files.length} 檔{nWarn + nErr > 0 ? `｜${nWarn + nErr} 有問題` : ""}
+        </span>
+      </button>
+    </div>
+  );
+}
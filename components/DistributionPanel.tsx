@@ -0,0 +1,262 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { alignReturns } from "@/lib/analytics/benchmark";
+import { FREQUENCY_LABELS, resampleReturns, type ReturnFrequency } from "@/lib/analytics/correlation";
+import {
+  distributionStats,
+  histogram,
+  histogramEdges,
+  normalPdf,
+  normalTail,
+  qqPoints,
+  type DistributionStats,
+} from "@/lib/analytics/distribution";
+import type { ReturnsResp } from "@/lib/types";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+type Props = {
+  name: string;
+  ret: ReturnsResp;
+  bench: ReturnsResp | null;
+  benchLabel?: string;
+};
+
+type Dist = { label: string; ret: number[]; color: string; stats: DistributionStats };
+
+const COLORS = { target: "#2563eb", bench: "#94a3b8" };
+
+function pct(v: number | null, digits = 2) {
+  return v === null || !Number.isFinite(v) ? "-" : `${(v * 100).toFixed(digits)}%`;
+}
+
+function num(v: number | null) {
+  return v === null || !Number.isFinite(v) ? "-" : v.toFixed(2);
+}
+
+// 因子詳情的報酬分配：直方圖 + 常態配適、QQ 圖、±2σ / ±3σ 次數
+export default function DistributionPanel({ name, ret, bench, benchLabel = "基準" }: Props) {
+  const [freq, setFreq] = useState<ReturnFrequency>("daily");
+  const [overlay, setOverlay] = useState(true);
+
+  const dists = useMemo(() => {
+    const out: Dist[] = [];
+    const target = resampleReturns(ret.dates, ret.ret, freq).ret;
+    out.push({ label: name, ret: target, color: COLORS.target, stats: distributionStats(target) });
+
+    // 基準只取與因子重疊的交易日，兩個分配才是同一段期間
+    if (bench && overlay) {
+      const a = alignReturns(ret.dates, ret.ret, bench);
+      const b = resampleReturns(a.dates, a.y, freq).ret;
+      if (b.length) out.push({ label: benchLabel, ret: b, color: COLORS.bench, stats: distributionStats(b) });
+    }
+    return out;
+  }, [name, ret, bench, benchLabel, overlay, freq]);
+
+  const histData = useMemo(() => {
+    const edges = histogramEdges(
+      dists.map((d) => d.ret),
+      freq === "daily" ? 60 : freq === "weekly" ? 40 : 25
+    );
+    if (edges.length < 2) return [];
+    const grid = Array.from({ length: 121 }, (_, i) => edges[0] + ((edges[edges.length - 1] - edges[0]) * i) / 120);
+
+    return dists.flatMap((d) => {
+      const h = histogram(d.ret, edges);
+      return [
+        {
+          x: h.centers,
+          y: h.density,
+          type: "bar",
+          name: d.label,
+          marker: { color: d.color },
+          opacity: 0.55,
+          hovertemplate: "%{x:.2%}<br>密度 %{y:.1f}<extra>" + d.label + "</extra>",
+        },
+        {
+          x: grid,
+          y: grid.map((x) => normalPdf(x, d.stats.mean, d.stats.sd)),
+          type: "scatter",
+          mode: "lines",
+          name: `${d.label} 常態配適`,
+          line: { color: d.color, width: 2, dash: "dot" },
+          hoverinfo: "skip",
+        },
+      ];
+    });
+  }, [dists, freq]);
+
+  const qqData = useMemo(() => {
+    const points = dists.map((d) => ({ d, q: qqPoints(d.ret) }));
+    const lim = Math.max(3, ...points.flatMap(({ q }) => q.theoretical.map(Math.abs)));
+    return [
+      ...points.map(({ d, q }) => ({
+        x: q.theoretical,
+        y: q.sample,
+        type: "scatter",
+        mode: "markers",
+        name: d.label,
+        marker: { color: d.color, size: 4, opacity: 0.7 },
+        hovertemplate: "理論 %{x:.2f}<br>樣本 %{y:.2f}<extra>" + d.label + "</extra>",
+      })),
+      {
+        x: [-lim, lim],
+        y: [-lim, lim],
+        type: "scatter",
+        mode: "lines",
+        name: "常態",
+        line: { color: "#e11d48", width: 1, dash: "dash" },
+        hoverinfo: "skip",
+      },
+    ];
+  }, [dists]);
+
+  const tail2 = normalTail(2);
+  const tail3 = normalTail(3);
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800">報酬分配</h2>
+          <p className="text-sm text-slate-500">直方圖以機率密度表示，虛線為相同平均與標準差的常態分配</p>
+        </div>
+        <div className="flex items-center gap-3">
+          {bench && (
+            <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600">
+              <input
+                type="checkbox"
+                className="h-3.5 w-3.5 rounded border-slate-300"
+                checked={overlay}
+                onChange={(e) => setOverlay(e.target.checked)}
+              />
+              疊加 {benchLabel}
+            </label>
+          )}
+          <div className="flex rounded-lg border border-slate-200 bg-slate-50 p-0.5">
+            {(Object.keys(FREQUENCY_LABELS) as ReturnFrequency[]).map((f) => (
+              <button
+                key={f}
+                onClick={() => setFreq(f)}
+                className={`rounded-md px-3 py-1 text-xs font-bold ${
+                  freq === f ? "bg-white text-blue-700 shadow-sm" : "text-slate-500 hover:text-slate-700"
+                }`}
+              >
+                {FREQUENCY_LABELS[f]}報酬
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {dists[0].ret.length < 3 ? (
+        <div className="text-slate-400">資料不足</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 lg:grid-cols-5 gap-4">
+            <div className="lg:col-span-3 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+              <div className="text-xs font-bold text-slate-500 mb-1">直方圖</div>
+              <div className="w-full h-[300px]">
+                <Plot
+                  data={histData}
+                  layout={{
+                    autosize: true,
+                    barmode: "overlay",
+                    bargap: 0.05,
+                    margin: { l: 45, r: 10, t: 5, b: 30 },
+                    showlegend: true,
+                    legend: { orientation: "h", y: 1.15 },
+                    paper_bgcolor: "rgba(0,0,0,0)",
+                    plot_bgcolor: "rgba(0,0,0,0)",
+                    xaxis: { gridcolor: "#f1f5f9", tickformat: ".1%" },
+                    yaxis: { gridcolor: "#e2e8f0" },
+                  }}
+                  style={{ width: "100%", height: "100%" }}
+                  useResizeHandler
+                  config={{ displayModeBar: false }}
+                />
+              </div>
+            </div>
+            <div className="lg:col-span-2 rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+              <div className="text-xs font-bold text-slate-500 mb-1">QQ 圖（標準化）</div>
+              <div className="w-full h-[300px]">
+                <Plot
+                  data={qqData}
+                  layout={{
+                    autosize: true,
+                    margin: { l: 40, r: 10, t: 5, b: 40 },
+                    showlegend: false,
+                    paper_bgcolor: "rgba(0,0,0,0)",
+                    plot_bgcolor: "rgba(0,0,0,0)",
+                    xaxis: { gridcolor: "#f1f5f9", title: "常態分位數", zeroline: false },
+                    yaxis: { gridcolor: "#e2e8f0", title: "樣本分位數", zeroline: false },
+                  }}
+                  style={{ width: "100%", height: "100%" }}
+                  useResizeHandler
+                  config={{ displayModeBar: false }}
+                />
+              </div>
+            </div>
+          </div>
+
+          <div className="mt-4 overflow-x-auto rounded-xl border border-slate-200">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-slate-50 text-slate-500 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-2 font-semibold">序列</th>
+                  <th className="px-4 py-2 font-semibold">期數</th>
+                  <th className="px-4 py-2 font-semibold">平均</th>
+                  <th className="px-4 py-2 font-semibold">標準差 σ</th>
+                  <th className="px-4 py-2 font-semibold">偏態</th>
+                  <th className="px-4 py-2 font-semibold">超額峰態</th>
+                  <th className="px-4 py-2 font-semibold whitespace-nowrap">&lt; -2σ</th>
+                  <th className="px-4 py-2 font-semibold whitespace-nowrap">&gt; +2σ</th>
+                  <th className="px-4 py-2 font-semibold whitespace-nowrap">&lt; -3σ</th>
+                  <th className="px-4 py-2 font-semibold whitespace-nowrap">&gt; +3σ</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {dists.map((d) => (
+                  <tr key={d.label}>
+                    <td className="px-4 py-2 font-medium text-slate-900 whitespace-nowrap">
+                      <span className="inline-block w-2.5 h-2.5 rounded-full mr-2" style={{ backgroundColor: d.color }} />
+                      {d.label}
+                    </td>
+                    <td className="px-4 py-2 text-slate-600">{d.stats.n}</td>
+                    <td className="px-4 py-2 text-slate-600">{pct(d.stats.mean, 3)}</td>
+                    <td className="px-4 py-2 text-slate-600">{pct(d.stats.sd)}</td>
+                    <td className="px-4 py-2 text-slate-600">{num(d.stats.skew)}</td>
+                    <td className="px-4 py-2 text-slate-600">{num(d.stats.kurtosis)}</td>
+                    <td className={`px-4 py-2 ${d.stats.down2 > tail2 ? "font-bold text-rose-600" : "text-slate-600"}`}>
+                      {pct(d.stats.down2)}
+                    </td>
+                    <td className={`px-4 py-2 ${d.stats.up2 > tail2 ? "font-bold text-emerald-600" : "text-slate-600"}`}>
+                      {pct(d.stats.up2)}
+                    </td>
+                    <td className={`px-4 py-2 ${d.stats.down3 > tail3 ? "font-bold text-rose-600" : "text-slate-600"}`}>
+                      {pct(d.stats.down3)}
+                    </td>
+                    <td className={`px-4 py-2 ${d.stats.up3 > tail3 ? "font-bold text-emerald-600" : "text-slate-600"}`}>
+                      {pct(d.stats.up3)}
+                    </td>
+                  </tr>
+                ))}
+                <tr className="bg-slate-50/60 text-xs text-slate-400">
+                  <td className="px-4 py-2" colSpan={6}>
+                    常態分配理論值（粗體表示尾部比常態更厚）
+                  </td>
+                  <td className="px-4 py-2">{pct(tail2)}</td>
+                  <td className="px-4 py-2">{pct(tail2)}</td>
+                  <td className="px-4 py-2">{pct(tail3)}</td>
+                  <td className="px-4 py-2">{pct(tail3)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </section>
+  );
+}
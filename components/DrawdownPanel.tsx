@@ -0,0 +1,168 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { drawdownEpisodes, underwater } from "@/lib/analytics/drawdown";
+import type { LabeledReturns } from "@/lib/analytics/series";
+import { copyText, toTsv } from "@/lib/clipboard";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+export type DrawdownSeries = LabeledReturns;
+
+type Props = {
+  series: DrawdownSeries[];
+  /** 圖表高度（px） */
+  height?: number;
+};
+
+const TOP_N_OPTIONS = [5, 10, 20];
+
+function fmtPct(x: number) {
+  return `${(x * 100).toFixed(2)}%`;
+}
+
+// 水下曲線 + 前 N 大回撤事件表；放在累積報酬圖下方
+export default function DrawdownPanel({ series, height = 220 }: Props) {
+  const [focus, setFocus] = useState("");
+  const [topN, setTopN] = useState(5);
+
+  const active = series.find((s) => s.name === focus) ?? series[0];
+
+  const chartData = useMemo(
+    () =>
+      series.map((s) => ({
+        x: s.dates,
+        y: underwater(s.ret),
+        type: "scatter",
+        mode: "lines",
+        name: s.label,
+        fill: series.length === 1 ? "tozeroy" : undefined,
+        line: { width: 1.5, ...(series.length === 1 ? { color: "#e11d48" } : {}) },
+        hovertemplate: "%{x}<br>%{y:.2%}<extra>" + s.label + "</extra>",
+      })),
+    [series]
+  );
+
+  const episodes = useMemo(
+    () => (active ? drawdownEpisodes(active.dates, active.ret).slice(0, topN) : []),
+    [active, topN]
+  );
+
+  const copyEpisodes = () => {
+    const header = ["#", "前高日", "谷底日", "收復日", "深度", "總長度(日)", "跌至谷底(日)", "收復期(日)"];
+    const rows = episodes.map((e, i) => [
+      i + 1,
+      e.peakDate,
+      e.troughDate,
+      e.recoveryDate ?? "未收復",
+      fmtPct(e.depth),
+      e.length,
+      e.toTrough,
+      e.toRecover ?? "-",
+    ]);
+    copyText(toTsv([header, ...rows]));
+  };
+
+  if (!series.length) return null;
+
+  return (
+    <div className="space-y-4">
+      <div className="w-full" style={{ height }}>
+        <Plot
+          data={chartData}
+          layout={{
+            autosize: true,
+            margin: { l: 45, r: 20, t: 10, b: 30 },
+            showlegend: series.length > 1,
+            legend: { orientation: "h", y: 1.15 },
+            xaxis: { gridcolor: "#f1f5f9" },
+            yaxis: { gridcolor: "#f1f5f9", tickformat: ".0%" },
+          }}
+          style={{ width: "100%", height: "100%" }}
+          useResizeHandler
+          config={{ displayModeBar: false }}
+        />
+      </div>
+
+      <div className="rounded-xl border border-slate-200 overflow-hidden">
+        <div className="flex flex-wrap items-center justify-between gap-3 border-b border-slate-100 bg-slate-50/50 px-4 py-3">
+          <h4 className="text-sm font-bold text-slate-700">回撤事件</h4>
+          <div className="flex items-center gap-2">
+            {series.length > 1 && (
+              <select
+                value={active?.name ?? ""}
+                onChange={(e) => setFocus(e.target.value)}
+                className="rounded-lg border-slate-200 bg-white py-1 text-xs font-medium text-slate-700"
+              >
+                {series.map((s) => (
+                  <option key={s.name} value={s.name}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            <select
+              value={topN}
+              onChange={(e) => setTopN(Number(e.target.value))}
+              className="rounded-lg border-slate-200 bg-white py-1 text-xs font-medium text-slate-700"
+            >
+              {TOP_N_OPTIONS.map((n) => (
+                <option key={n} value={n}>
+                  前 {n} 大
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={copyEpisodes}
+              className="rounded-lg border border-slate-200 bg-white px-2.5 py-1 text-xs font-bold text-slate-600 hover:bg-slate-100"
+              title="複製表格（可貼到 Excel）"
+            >
+              複製
+            </button>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-left">
+            <thead className="bg-white text-slate-500 border-b border-slate-200">
+              <tr>
+                <th className="px-4 py-2 font-semibold">#</th>
+                <th className="px-4 py-2 font-semibold">前高日</th>
+                <th className="px-4 py-2 font-semibold">谷底日</th>
+                <th className="px-4 py-2 font-semibold">收復日</th>
+                <th className="px-4 py-2 font-semibold">深度</th>
+                <th className="px-4 py-2 font-semibold">總長度</th>
+                <th className="px-4 py-2 font-semibold">跌至谷底</th>
+                <th className="px-4 py-2 font-semibold">收復期</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {episodes.map((e, i) => (
+                <tr key={`${e.peakDate}-${e.troughDate}`} className="hover:bg-slate-50">
+                  <td className="px-4 py-2 text-slate-400">{i + 1}</td>
+                  <td className="px-4 py-2 font-mono text-slate-700">{e.peakDate}</td>
+                  <td className="px-4 py-2 font-mono text-slate-700">{e.troughDate}</td>
+                  <td className="px-4 py-2 font-mono text-slate-700">
+                    {e.recoveryDate ?? <span className="text-amber-600 font-sans font-bold">未收復</span>}
+                  </td>
+                  <td className="px-4 py-2 font-bold text-rose-600">{fmtPct(e.depth)}</td>
+                  <td className="px-4 py-2 text-slate-600">{e.length} 日</td>
+                  <td className="px-4 py-2 text-slate-600">{e.toTrough} 日</td>
+                  <td className="px-4 py-2 text-slate-600">{e.toRecover === null ? "-" : `${e.toRecover} 日`}</td>
+                </tr>
+              ))}
+              {episodes.length === 0 && (
+                <tr>
+                  <td colSpan={8} className="px-4 py-6 text-center text-slate-400">
+                    區間內沒有回撤
+                  </td>
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,303 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { EVENT_WINDOWS, eventStudy, parseEventDates, type EventRow } from "@/lib/analytics/event-study";
+import type { LabeledReturns } from "@/lib/analytics/series";
+import { copyText, toTsv } from "@/lib/clipboard";
+import { usePersistentState } from "@/lib/hooks/use-persistent-state";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+type Props = {
+  series: LabeledReturns[];
+};
+
+type SavedList = { name: string; dates: string[] };
+
+const NO_LISTS: SavedList[] = [];
+
+// localStorage 的事件清單；不是陣列時用空清單，格式不對的項目略過
+function validateSavedLists(raw: unknown): SavedList[] | null {
+  if (!Array.isArray(raw)) return null;
+  return raw.filter(
+    (l): l is SavedList =>
+      !!l &&
+      typeof l === "object" &&
+      typeof l.name === "string" &&
+      Array.isArray(l.dates) &&
+      l.dates.every((d: unknown) => typeof d === "string")
+  );
+}
+
+// 信賴帶需要半透明色，不能用 Plotly 預設色盤
+const PALETTE = ["#2563eb", "#e11d48", "#059669", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#65a30d"];
+
+function withAlpha(hex: string, a: number) {
+  const n = parseInt(hex.slice(1), 16);
+  return `rgba(${(n >> 16) & 255},${(n >> 8) & 255},${n & 255},${a})`;
+}
+
+function fmtPct(x: number | null) {
+  return x === null ? "-" : `${(x * 100).toFixed(2)}%`;
+}
+
+function tone(x: number | null) {
+  return x === null ? "text-slate-400" : x >= 0 ? "text-emerald-600" : "text-rose-600";
+}
+
+function eventRows(rows: EventRow[], k: number) {
+  return [
+    ["事件日", "T 日", `T-${k} ~ T-1`, `T ~ T+${k}`, "全視窗", "備註"],
+    ...rows.map((r) => [r.event, r.tradeDate ?? "", fmtPct(r.pre), fmtPct(r.post), fmtPct(r.total), r.skipped ?? ""]),
+  ];
+}
+
+// 自訂事件研究：貼上事件日，看 T-k ~ T+k 的平均累積報酬
+export default function EventStudyPanel({ series }: Props) {
+  const [text, setText] = useState("");
+  const [k, setK] = useState(20);
+  const [listName, setListName] = useState("");
+  const [tableFactor, setTableFactor] = useState("");
+  const [savedLists, setSavedLists] = usePersistentState<SavedList[]>(
+    "event-study.lists",
+    NO_LISTS,
+    validateSavedLists
+  );
+
+  const parsed = useMemo(() => parseEventDates(text), [text]);
+
+  const results = useMemo(
+    () => series.map((s) => ({ s, r: eventStudy(s, parsed.dates, k) })),
+    [series, parsed.dates, k]
+  );
+
+  const tableResult = results.find((x) => x.s.name === tableFactor) ?? results[0];
+
+  const chartData = useMemo(
+    () =>
+      results.flatMap(({ s, r }, i) => {
+        if (!r.n) return [];
+        const color = PALETTE[i % PALETTE.length];
+        return [
+          {
+            x: r.offsets,
+            y: r.upper,
+            type: "scatter",
+            mode: "lines",
+            line: { width: 0 },
+            hoverinfo: "skip",
+            showlegend: false,
+          },
+          {
+            x: r.offsets,
+            y: r.lower,
+            type: "scatter",
+            mode: "lines",
+            line: { width: 0 },
+            fill: "tonexty",
+            fillcolor: withAlpha(color, 0.12),
+            hoverinfo: "skip",
+            showlegend: false,
+          },
+          {
+            x: r.offsets,
+            y: r.mean,
+            type: "scatter",
+            mode: "lines",
+            name: `${s.label} (n=${r.n})`,
+            line: { color, width: 2 },
+            hovertemplate: "T%{x:+d}<br>%{y:.2%}<extra>" + s.label + "</extra>",
+          },
+        ];
+      }),
+    [results]
+  );
+
+  const saveList = () => {
+    const name = listName.trim();
+    if (!name || !parsed.dates.length) return;
+    setSavedLists((prev) => [...prev.filter((l) => l.name !== name), { name, dates: parsed.dates }]);
+    setListName("");
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="space-y-3">
+          <label className="text-xs font-bold uppercase text-slate-400 tracking-wider block">事件日期</label>
+          <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={8}
+            placeholder={"每行一個日期，或以逗號分隔\n2024-01-18\n2024-03-21"}
+            className="w-full rounded-lg border-slate-200 font-mono text-sm text-slate-700"
+          />
+          <div className="text-xs text-slate-500">
+            有效 {parsed.dates.length} 筆
+            {parsed.invalid.length > 0 && (
+              <span className="text-amber-600">｜無法解析：{parsed.invalid.slice(0, 5).join("、")}{parsed.invalid.length > 5 && " …"}</span>
+            )}
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium text-slate-500">視窗 ±</span>
+            <select
+              value={k}
+              onChange={(e) => setK(Number(e.target.value))}
+              className="rounded-lg border-slate-200 py-1 text-sm text-slate-700"
+            >
+              {EVENT_WINDOWS.map((w) => (
+                <option key={w} value={w}>
+                  {w} 交易日
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="pt-3 border-t border-slate-100 space-y-2">
+            <label className="text-xs font-bold uppercase text-slate-400 tracking-wider block">已存清單</label>
+            <div className="flex gap-2">
+              <input
+                value={listName}
+                onChange={(e) => setListName(e.target.value)}
+                placeholder="清單名稱"
+                className="min-w-0 flex-1 rounded-lg border-slate-200 py-1 text-sm text-slate-700"
+              />
+              <button
+                onClick={saveList}
+                disabled={!listName.trim() || !parsed.dates.length}
+                className="rounded-lg bg-slate-800 px-3 py-1 text-xs font-bold text-white hover:bg-slate-700 disabled:opacity-40"
+              >
+                儲存
+              </button>
+            </div>
+            {savedLists.length === 0 ? (
+              <p className="text-xs text-slate-400">尚無清單</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {savedLists.map((l) => (
+                  <span
+                    key={l.name}
+                    className="inline-flex items-center gap-1 rounded-full border border-slate-200 bg-white pl-3 pr-1 py-0.5 text-xs"
+                  >
+                    <button onClick={() => setText(l.dates.join("\n"))} className="font-bold text-slate-700 hover:text-blue-600">
+                      {l.name}
+                      <span className="ml-1 font-normal text-slate-400">{l.dates.length}</span>
+                    </button>
+                    <button
+                      onClick={() => setSavedLists((prev) => prev.filter((x) => x.name !== l.name))}
+                      className="rounded-full px-1 text-slate-300 hover:text-rose-600"
+                      title="刪除清單"
+                    >
+                      ✕
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="lg:col-span-2">
+          {!parsed.dates.length ? (
+            <div className="h-[360px] flex items-center justify-center rounded-xl border border-dashed border-slate-300 text-sm text-slate-400">
+              輸入事件日期或選擇已存清單
+            </div>
+          ) : !series.length ? (
+            <div className="h-[360px] flex items-center justify-center text-sm text-slate-400">請先選擇因子</div>
+          ) : (
+            <div className="w-full h-[360px]">
+              <Plot
+                data={chartData}
+                layout={{
+                  autosize: true,
+                  margin: { l: 50, r: 20, t: 10, b: 40 },
+                  showlegend: true,
+                  legend: { orientation: "h", y: 1.12 },
+                  xaxis: { gridcolor: "#f1f5f9", title: "相對事件日（交易日）", zeroline: false },
+                  yaxis: { gridcolor: "#f1f5f9", tickformat: ".1%" },
+                  shapes: [
+                    {
+                      type: "line",
+                      xref: "x",
+                      yref: "paper",
+                      x0: 0,
+                      x1: 0,
+                      y0: 0,
+                      y1: 1,
+                      line: { color: "#94a3b8", width: 1, dash: "dot" },
+                    },
+                  ],
+                }}
+                style={{ width: "100%", height: "100%" }}
+                useResizeHandler
+                config={{ displayModeBar: false }}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+
+      {tableResult && parsed.dates.length > 0 && (
+        <div className="rounded-xl border border-slate-200 overflow-hidden">
+          <div className="flex items-center gap-3 border-b border-slate-100 bg-slate-50/50 px-4 py-3">
+            <h4 className="text-sm font-bold text-slate-700 mr-auto">逐事件報酬</h4>
+            {series.length > 1 && (
+              <select
+                value={tableResult.s.name}
+                onChange={(e) => setTableFactor(e.target.value)}
+                className="rounded-lg border-slate-200 bg-white py-1 text-xs font-medium text-slate-700"
+              >
+                {series.map((s) => (
+                  <option key={s.name} value={s.name}>
+                    {s.label}
+                  </option>
+                ))}
+              </select>
+            )}
+            <button
+              onClick={() => copyText(toTsv(eventRows(tableResult.r.rows, k)))}
+              className="rounded-lg border border-slate-200 bg-white px-2.5 py-1 text-xs font-bold text-slate-600 hover:bg-slate-100"
+              title="複製表格（可貼到 Excel）"
+            >
+              複製
+            </button>
+          </div>
+          <div className="overflow-x-auto max-h-[360px] overflow-y-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="sticky top-0 bg-white text-slate-500 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-2 font-semibold">事件日</th>
+                  <th className="px-4 py-2 font-semibold">對齊交易日 (T)</th>
+                  <th className="px-4 py-2 font-semibold">T-{k} ~ T-1</th>
+                  <th className="px-4 py-2 font-semibold">T ~ T+{k}</th>
+                  <th className="px-4 py-2 font-semibold">全視窗</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {tableResult.r.rows.map((row) => (
+                  <tr key={row.event} className={row.skipped ? "text-slate-400" : "hover:bg-slate-50"}>
+                    <td className="px-4 py-2 font-mono">{row.event}</td>
+                    <td className="px-4 py-2 font-mono">{row.tradeDate ?? "-"}</td>
+                    {row.skipped ? (
+                      <td colSpan={3} className="px-4 py-2 text-xs">
+                        略過：{row.skipped}
+                      </td>
+                    ) : (
+                      <>
+                        <td className={`px-4 py-2 ${tone(row.pre)}`}>{fmtPct(row.pre)}</td>
+                        <td className={`px-4 py-2 font-bold ${tone(row.post)}`}>{fmtPct(row.post)}</td>
+                        <td className={`px-4 py-2 ${tone(row.total)}`}>{fmtPct(row.total)}</td>
+                      </>
+                    )}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,295 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import Link from "next/link";
+import {
+  averageStreak,
+  diffHoldings,
+  holdingRuns,
+  holdingsCountTimeline,
+  previousMonth,
+  sortedMonths,
+  streaksAt,
+} from "@/lib/analytics/holdings";
+import { mean } from "@/lib/analytics/series";
+import { monthWeights } from "@/lib/analytics/turnover";
+import { concentration, weightChanges } from "@/lib/analytics/weights";
+import type { HoldingsResp, StockNamesResp } from "@/lib/types";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+type Props = {
+  holdings: HoldingsResp;
+  /** 比較的目標月份（頁面上的月份選單） */
+  month: string;
+  stockNames?: StockNamesResp;
+};
+
+// 權重變化表列出的檔數
+const TOP_WEIGHT_CHANGES = 10;
+
+function pct(v: number, digits = 2) {
+  return `${(v * 100).toFixed(digits)}%`;
+}
+
+// 空字串 = 自動取上一個月
+const PREVIOUS = "";
+
+export type HoldingsView = "list" | "diff";
+
+const VIEW_LABELS: Record<HoldingsView, string> = { list: "名單", diff: "變動" };
+
+// 持股區塊標題列的「名單 / 變動」切換
+export function HoldingsViewToggle({ value, onChange }: { value: HoldingsView; onChange: (v: HoldingsView) => void }) {
+  return (
+    <div className="flex rounded-lg border border-slate-200 bg-slate-50 p-0.5">
+      {(Object.keys(VIEW_LABELS) as HoldingsView[]).map((v) => (
+        <button
+          key={v}
+          onClick={() => onChange(v)}
+          className={`rounded-md px-3 py-1 text-xs font-bold ${
+            value === v ? "bg-white text-blue-700 shadow-sm" : "text-slate-500 hover:text-slate-700"
+          }`}
+        >
+          {VIEW_LABELS[v]}
+        </button>
+      ))}
+    </div>
+  );
+}
+
+// 持股月對月變動：新增 / 刪除 / 續留、連續持有月數與持股數走勢
+export default function HoldingsDiffPanel({ holdings, month, stockNames = {} }: Props) {
+  const [from, setFrom] = useState(PREVIOUS);
+
+  const months = useMemo(() => sortedMonths(holdings), [holdings]);
+  const runs = useMemo(() => holdingRuns(holdings), [holdings]);
+  const timeline = useMemo(() => holdingsCountTimeline(holdings), [holdings]);
+
+  // 選過的基準等於目標月份或不在這份名單時（換月份 / 換名單），退回上一個月
+  const fromMonth = from !== month && months.includes(from) ? from : PREVIOUS;
+  const base = fromMonth === PREVIOUS ? previousMonth(holdings, month) : fromMonth;
+  const diff = useMemo(() => (base ? diffHoldings(holdings, base, month) : null), [holdings, base, month]);
+  const streaks = useMemo(() => streaksAt(holdings, month), [holdings, month]);
+
+  const kept = useMemo(
+    () => (diff ? [...diff.kept].sort((a, b) => (streaks[b] ?? 0) - (streaks[a] ?? 0)) : []),
+    [diff, streaks]
+  );
+  // 任一期有權重時才顯示權重與集中度；另一期沒有權重則以等權重比較
+  const weighted = !!(holdings.weights?.[month] || (base && holdings.weights?.[base]));
+  const weightsTo = useMemo(() => monthWeights(holdings, month), [holdings, month]);
+  const weightsFrom = useMemo(() => (base ? monthWeights(holdings, base) : {}), [holdings, base]);
+  const changes = useMemo(
+    () => (weighted ? weightChanges(weightsFrom, weightsTo).filter((c) => c.change !== 0).slice(0, TOP_WEIGHT_CHANGES) : []),
+    [weighted, weightsFrom, weightsTo]
+  );
+  const concFrom = weighted && base ? concentration(weightsFrom) : null;
+  const concTo = weighted ? concentration(weightsTo) : null;
+
+  const avgCurrent = Object.keys(streaks).length ? mean(Object.values(streaks)) : null;
+  const avgRun = useMemo(() => {
+    const all = Object.values(runs).flat();
+    return all.length ? mean(all.map((r) => r.length)) : null;
+  }, [runs]);
+
+  const chip = (ticker: string, tone: "added" | "removed" | "kept") => {
+    const name = stockNames[ticker];
+    const avg = averageStreak(runs[ticker]);
+    const style =
+      tone === "added"
+        ? "border-emerald-200 bg-emerald-50 text-emerald-800"
+        : tone === "removed"
+          ? "border-rose-200 bg-rose-50 text-rose-700 line-through decoration-rose-300"
+          : "border-slate-200 bg-white text-slate-700";
+    return (
+      <Link
+        key={ticker}
+        href={`/stock/${encodeURIComponent(ticker)}`}
+        className={`inline-flex items-center gap-1 rounded-full border px-2.5 py-1 text-xs font-bold hover:border-blue-300 ${style}`}
+        title={avg === null ? undefined : `歷次平均連續持有 ${avg.toFixed(1)} 個月（共 ${runs[ticker].length} 段）`}
+      >
+        <span className="font-mono">{ticker}</span>
+        {name && <span className="font-medium opacity-80">{name}</span>}
+        {weighted && tone !== "removed" && (
+          <span className="font-mono font-medium text-blue-600">{pct(weightsTo[ticker] ?? 0, 1)}</span>
+        )}
+        {tone === "kept" && streaks[ticker] && (
+          <span className="ml-0.5 rounded bg-slate-100 px-1 text-[10px] font-medium text-slate-500">{streaks[ticker]} 月</span>
+        )}
+      </Link>
+    );
+  };
+
+  return (
+    <div className="space-y-5">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-xs font-bold uppercase text-slate-400 tracking-wider">比較基準</span>
+        <select
+          className="rounded-lg border-slate-200 bg-white py-1 text-sm font-medium text-slate-700"
+          value={fromMonth}
+          onChange={(e) => setFrom(e.target.value)}
+        >
+          <option value={PREVIOUS}>上一個月{previousMonth(holdings, month) ? `（${previousMonth(holdings, month)}）` : ""}</option>
+          {months
+            .filter((m) => m !== month)
+            .map((m) => (
+              <option key={m} value={m}>
+                {m}
+              </option>
+            ))}
+        </select>
+        <span className="text-slate-400">→</span>
+        <span className="font-mono font-bold text-slate-700">{month}</span>
+      </div>
+
+      {!diff ? (
+        <div className="text-slate-400 text-sm">這是第一個月份，沒有可比較的前一期</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {[
+              { label: "新增", value: `${diff.added.length} 檔`, color: "text-emerald-600" },
+              { label: "刪除", value: `${diff.removed.length} 檔`, color: "text-rose-600" },
+              { label: "續留", value: `${diff.kept.length} 檔`, color: "text-slate-800" },
+              {
+                label: "續留率",
+                value: diff.retention === null ? "-" : `${(diff.retention * 100).toFixed(1)}%`,
+                color: "text-blue-600",
+              },
+              {
+                label: "平均已連續持有",
+                value: avgCurrent === null ? "-" : `${avgCurrent.toFixed(1)} 月`,
+                color: "text-slate-800",
+                hint: avgRun === null ? undefined : `全期每段平均 ${avgRun.toFixed(1)} 月`,
+              },
+            ].map((c) => (
+              <div key={c.label} className="rounded-xl border border-slate-100 bg-slate-50 p-3" title={c.hint}>
+                <div className="text-xs text-slate-400">{c.label}</div>
+                <div className={`text-lg font-bold ${c.color}`}>{c.value}</div>
+              </div>
+            ))}
+          </div>
+
+          {weighted && (
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+              <div className="overflow-x-auto rounded-xl border border-slate-100">
+                <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 text-xs text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 font-semibold">集中度</th>
+                      <th className="px-3 py-2 font-semibold text-right">{diff.from}</th>
+                      <th className="px-3 py-2 font-semibold text-right">{diff.to}</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100 font-mono text-slate-700">
+                    {(
+                      [
+                        ["前十大權重", (c) => pct(c.top10, 1)],
+                        ["HHI", (c) => c.hhi.toFixed(3)],
+                        ["有效檔數", (c) => c.effectiveN.toFixed(1)],
+                      ] as [string, (c: NonNullable<typeof concTo>) => string][]
+                    ).map(([label, fmt]) => (
+                      <tr key={label}>
+                        <td className="px-3 py-1.5 font-sans text-slate-500">{label}</td>
+                        <td className="px-3 py-1.5 text-right">{concFrom ? fmt(concFrom) : "-"}</td>
+                        <td className="px-3 py-1.5 text-right">{concTo ? fmt(concTo) : "-"}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <div className="overflow-x-auto rounded-xl border border-slate-100">
+                <table className="w-full text-sm text-left">
+                  <thead className="bg-slate-50 text-xs text-slate-500">
+                    <tr>
+                      <th className="px-3 py-2 font-semibold">權重變化最大</th>
+                      <th className="px-3 py-2 font-semibold text-right">{diff.from}</th>
+                      <th className="px-3 py-2 font-semibold text-right">{diff.to}</th>
+                      <th className="px-3 py-2 font-semibold text-right">變化</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-slate-100">
+                    {changes.map((c) => (
+                      <tr key={c.ticker}>
+                        <td className="px-3 py-1.5 text-slate-700">
+                          <Link href={`/stock/${encodeURIComponent(c.ticker)}`} className="font-mono font-bold hover:underline">
+                            {c.ticker}
+                          </Link>
+                          {stockNames[c.ticker] && <span className="ml-1.5 text-xs text-slate-500">{stockNames[c.ticker]}</span>}
+                        </td>
+                        <td className="px-3 py-1.5 text-right font-mono text-slate-400">{pct(c.from)}</td>
+                        <td className="px-3 py-1.5 text-right font-mono text-slate-600">{pct(c.to)}</td>
+                        <td
+                          className={`px-3 py-1.5 text-right font-mono font-bold ${
+                            c.change > 0 ? "text-emerald-600" : "text-rose-600"
+                          }`}
+                        >
+                          {c.change > 0 ? "+" : ""}
+                          {pct(c.change)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="grid grid-cols-1 lg:grid-cols-3 gap-4">
+            {(
+              [
+                ["added", "新增", diff.added],
+                ["removed", `刪除（相對 ${diff.from}）`, diff.removed],
+                ["kept", "續留（依連續持有月數排序）", kept],
+              ] as const
+            ).map(([tone, title, list]) => (
+              <div key={tone} className="rounded-xl border border-slate-100 p-3">
+                <div className="mb-2 text-xs font-bold text-slate-500">
+                  {title} <span className="font-normal text-slate-400">{list.length}</span>
+                </div>
+                {list.length ? (
+                  <div className="flex flex-wrap gap-1.5">{list.map((t) => chip(t, tone))}</div>
+                ) : (
+                  <div className="text-xs text-slate-400">無</div>
+                )}
+              </div>
+            ))}
+          </div>
+        </>
+      )}
+
+      <div>
+        <div className="mb-1 text-xs font-bold text-slate-500">持股檔數</div>
+        <div className="w-full h-[180px]">
+          <Plot
+            data={[
+              {
+                x: timeline.months,
+                y: timeline.counts,
+                type: "bar",
+                marker: {
+                  color: timeline.months.map((m) => (m === month ? "#2563eb" : m === diff?.from ? "#f59e0b" : "#cbd5e1")),
+                },
+                hovertemplate: "%{x}<br>%{y} 檔<extra></extra>",
+              },
+            ]}
+            layout={{
+              autosize: true,
+              margin: { l: 35, r: 10, t: 5, b: 30 },
+              showlegend: false,
+              bargap: 0.15,
+              xaxis: { gridcolor: "#f1f5f9" },
+              yaxis: { gridcolor: "#f1f5f9", rangemode: "tozero" },
+            }}
+            style={{ width: "100%", height: "100%" }}
+            useResizeHandler
+            config={{ displayModeBar: false }}
+          />
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+"use client";
+
+import React, { useState } from "react";
+import { usePersistentState } from "@/lib/hooks/use-persistent-state";
+import {
+  DEFAULT_METRIC_KEYS,
+  METRIC_COLUMNS,
+  METRIC_GROUP_LABELS,
+  type MetricColumn,
+  type MetricGroup,
+  type MetricKey,
+} from "@/lib/analytics/metric-columns";
+
+/** 每頁各自記住要顯示的指標欄位；回傳依 METRIC_COLUMNS 順序排好的欄位定義 */
+export function useMetricColumns(storageKey: string, defaults: MetricKey[] = DEFAULT_METRIC_KEYS) {
+  const [keys, setKeys] = usePersistentState<MetricKey[]>(storageKey, defaults);
+  const columns = METRIC_COLUMNS.filter((c) => keys.includes(c.key));
+  return { keys, setKeys, columns };
+}
+
+type Props = {
+  selected: MetricKey[];
+  onChange: (keys: MetricKey[]) => void;
+  defaults?: MetricKey[];
+  columns?: MetricColumn[];
+};
+
+// 績效表右上角的「欄位」下拉選單
+export default function MetricColumnPicker({
+  selected,
+  onChange,
+  defaults = DEFAULT_METRIC_KEYS,
+  columns = METRIC_COLUMNS,
+}: Props) {
+  const [open, setOpen] = useState(false);
+
+  const groups = (Object.keys(METRIC_GROUP_LABELS) as MetricGroup[])
+    .map((g) => [g, columns.filter((c) => (c.group ?? "absolute") === g)] as const)
+    .filter(([, cols]) => cols.length > 0);
+
+  const toggle = (key: MetricKey) => {
+    if (selected.includes(key)) {
+      // 至少保留一欄
+      if (selected.length > 1) onChange(selected.filter((k) => k !== key));
+    } else {
+      onChange([...selected, key]);
+    }
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className="flex items-center gap-1.5 rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-bold text-slate-600 hover:bg-slate-50"
+      >
+        <svg className="w-3.5 h-3.5" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M4 6h16M4 12h16M4 18h7" />
+        </svg>
+        欄位 ({selected.length})
+      </button>
+
+      {open && (
+        <>
+          <div className="fixed inset-0 z-30" onClick={() => setOpen(false)} />
+          <div className="absolute right-0 z-40 mt-2 w-64 rounded-xl border border-slate-200 bg-white p-2 shadow-xl">
+            <div className="max-h-80 overflow-y-auto">
+              {groups.map(([group, cols]) => (
+                <div key={group} className="mb-1">
+                  {groups.length > 1 && (
+                    <div className="px-2 pt-1.5 pb-1 text-[11px] font-bold uppercase tracking-wider text-slate-400">
+                      {METRIC_GROUP_LABELS[group]}
+                    </div>
+                  )}
+                  {cols.map((c) => (
+                    <label
+                      key={c.key}
+                      className="flex items-center gap-2 rounded-lg px-2 py-1.5 text-sm text-slate-700 hover:bg-slate-50 cursor-pointer"
+                      title={c.hint}
+                    >
+                      <input
+                        type="checkbox"
+                        className="h-3.5 w-3.5 rounded border-slate-300 text-blue-600"
+                        checked={selected.includes(c.key)}
+                        onChange={() => toggle(c.key)}
+                      />
+                      <span className="flex-1">{c.label}</span>
+                      {c.hint && <span className="text-[11px] text-slate-400 truncate max-w-[96px]">{c.hint}</span>}
+                    </label>
+                  ))}
+                </div>
+              ))}
+            </div>
+            <div className="mt-1 flex justify-end border-t border-slate-100 pt-2">
+              <button
+                onClick={() => onChange(defaults)}
+                className="rounded-md px-2 py-1 text-xs font-bold text-slate-500 hover:bg-slate-100"
+              >
+                重設預設
+              </button>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import { calendarExcess, calendarReturns, type CalendarYear } from "@/lib/analytics/calendar";
+import { copyText, downloadCsv, toTsv } from "@/lib/clipboard";
+import type { ReturnsResp } from "@/lib/types";
+
+type Props = {
+  name: string;
+  ret: ReturnsResp;
+  bench?: ReturnsResp | null;
+  benchLabel?: string;
+  /** 用在展開列等較窄的位置 */
+  compact?: boolean;
+};
+
+const MONTH_LABELS = ["1月", "2月", "3月", "4月", "5月", "6月", "7月", "8月", "9月", "10月", "11月", "12月"];
+
+function fmtCell(v: number | null) {
+  return v === null || !Number.isFinite(v) ? "" : `${(v * 100).toFixed(1)}%`;
+}
+
+// 漲跌底色：±10% 以上顏色最深
+function cellStyle(v: number | null): React.CSSProperties | undefined {
+  if (v === null || !Number.isFinite(v)) return undefined;
+  const a = Math.min(Math.abs(v) / 0.1, 1) * 0.55 + 0.05;
+  return { backgroundColor: v >= 0 ? `rgba(16,185,129,${a})` : `rgba(244,63,94,${a})` };
+}
+
+function gridRows(years: CalendarYear[], excess: CalendarYear[] | null, benchLabel: string) {
+  const lastYear = years[years.length - 1]?.year;
+  const rows: (string | number)[][] = [["年度", ...MONTH_LABELS, "全年"]];
+  years.forEach((y, i) => {
+    rows.push([y.year === lastYear ? `${y.year} (YTD)` : y.year, ...y.months.map(fmtCell), fmtCell(y.total)]);
+    if (excess) rows.push([`超額 vs ${benchLabel}`, ...excess[i].months.map(fmtCell), fmtCell(excess[i].total)]);
+  });
+  return rows;
+}
+
+// 年 × 月報酬表（因子詳情、策略庫展開列共用）
+export default function MonthlyReturnGrid({ name, ret, bench, benchLabel = "基準", compact = false }: Props) {
+  const [showExcess, setShowExcess] = useState(false);
+
+  const years = useMemo(() => calendarReturns(ret.dates, ret.ret), [ret]);
+  const excess = useMemo(() => (bench ? calendarExcess(years, bench) : null), [years, bench]);
+  const visibleExcess = showExcess ? excess : null;
+
+  const lastYear = years[years.length - 1]?.year;
+  const pad = compact ? "px-1.5 py-1" : "px-2 py-1.5";
+
+  if (!years.length) return <div className="text-slate-400 text-sm">沒有報酬資料</div>;
+
+  return (
+    <div>
+      <div className="mb-3 flex flex-wrap items-center justify-end gap-2">
+        {excess && (
+          <label className="flex items-center gap-1.5 text-xs font-medium text-slate-600 mr-auto">
+            <input
+              type="checkbox"
+              className="h-3.5 w-3.5 rounded border-slate-300"
+              checked={showExcess}
+              onChange={(e) => setShowExcess(e.target.checked)}
+            />
+            顯示相對 {benchLabel} 的超額報酬
+          </label>
+        )}
+        <button
+          onClick={() => copyText(toTsv(gridRows(years, visibleExcess, benchLabel)))}
+          className="rounded-lg border border-slate-200 bg-white px-2.5 py-1 text-xs font-bold text-slate-600 hover:bg-slate-100"
+          title="複製表格（可貼到 Excel）"
+        >
+          複製
+        </button>
+        <button
+          onClick={() => downloadCsv(`${name}_monthly_returns.csv`, gridRows(years, visibleExcess, benchLabel))}
+          className="rounded-lg border border-slate-200 bg-white px-2.5 py-1 text-xs font-bold text-slate-600 hover:bg-slate-100"
+        >
+          下載 CSV
+        </button>
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200">
+        <table className="w-full text-xs text-right tabular-nums">
+          <thead className="bg-slate-50 text-slate-500 border-b border-slate-200">
+            <tr>
+              <th className={`${pad} text-left font-semibold`}>年度</th>
+              {MONTH_LABELS.map((m) => (
+                <th key={m} className={`${pad} font-semibold`}>
+                  {m}
+                </th>
+              ))}
+              <th className={`${pad} font-bold text-slate-700`}>全年</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {years.map((y, i) => (
+              <React.Fragment key={y.year}>
+                <tr>
+                  <td className={`${pad} text-left font-bold text-slate-700 whitespace-nowrap`}>
+                    {y.year}
+                    {y.year === lastYear && <span className="ml-1 font-medium text-slate-400">YTD</span>}
+                  </td>
+                  {y.months.map((r, m) => (
+                    <td key={m} className={`${pad} text-slate-800`} style={cellStyle(r)}>
+                      {fmtCell(r)}
+                    </td>
+                  ))}
+                  <td className={`${pad} font-bold text-slate-900 border-l border-slate-200`} style={cellStyle(y.total)}>
+                    {fmtCell(y.total)}
+                  </td>
+                </tr>
+                {visibleExcess && (
+                  <tr className="bg-slate-50/60">
+                    <td className={`${pad} text-left text-[11px] font-medium text-slate-400 whitespace-nowrap`}>超額</td>
+                    {visibleExcess[i].months.map((r, m) => (
+                      <td
+                        key={m}
+                        className={`${pad} text-[11px] ${r === null ? "" : r >= 0 ? "text-emerald-600" : "text-rose-600"}`}
+                      >
+                        {fmtCell(r)}
+                      </td>
+                    ))}
+                    <td
+                      className={`${pad} text-[11px] font-bold border-l border-slate-200 ${
+                        visibleExcess[i].total === null ? "" : visibleExcess[i].total! >= 0 ? "text-emerald-600" : "text-rose-600"
+                      }`}
+                    >
+                      {fmtCell(visibleExcess[i].total)}
+                    </td>
+                  </tr>
+                )}
+              </React.Fragment>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
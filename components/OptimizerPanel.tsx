@@ -0,0 +1,259 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { calcMetrics, type MetricOptions } from "@/lib/analytics/metrics";
+import { formatMetric, metricToneClass, METRIC_COLUMNS, type MetricKey } from "@/lib/analytics/metric-columns";
+import {
+  ESTIMATION_MODE_LABELS,
+  OPTIMIZER_METHOD_LABELS,
+  runOptimizer,
+  type EstimationMode,
+  type OptimizerMethod,
+} from "@/lib/analytics/optimizer";
+import { toCum, type LabeledReturns } from "@/lib/analytics/series";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+type Props = {
+  series: LabeledReturns[];
+  metricOptions?: MetricOptions;
+};
+
+const LOOKBACK_OPTIONS = [126, 252, 504];
+const RESULT_METRIC_KEYS: MetricKey[] = ["periodReturn", "cagr", "annVol", "sharpe", "sortino", "maxdd"];
+
+// 首頁的因子配置最佳化：權重變化、樣本外淨值與等權重比較
+export default function OptimizerPanel({ series, metricOptions }: Props) {
+  const [method, setMethod] = useState<OptimizerMethod>("riskParity");
+  const [mode, setMode] = useState<EstimationMode>("walkForward");
+  const [lookback, setLookback] = useState(252);
+  const [minPct, setMinPct] = useState(0);
+  const [maxPct, setMaxPct] = useState(100);
+
+  const result = useMemo(
+    () =>
+      runOptimizer(series, {
+        method,
+        mode,
+        lookback,
+        minWeight: minPct / 100,
+        maxWeight: maxPct / 100,
+        rfAnnual: metricOptions?.rfAnnual,
+        rfSeries: metricOptions?.rfSeries,
+      }),
+    [series, method, mode, lookback, minPct, maxPct, metricOptions]
+  );
+
+  const labels = series.map((s) => s.label);
+  const boundsInvalid = (minPct / 100) * series.length > 1 || (maxPct / 100) * series.length < 1;
+
+  const rows = useMemo(() => {
+    if (!result) return [];
+    return [
+      { label: OPTIMIZER_METHOD_LABELS[method], m: calcMetrics(result.dates, result.ret, metricOptions) },
+      { label: "等權重基準", m: calcMetrics(result.dates, result.equalRet, metricOptions) },
+    ];
+  }, [result, method, metricOptions]);
+
+  const columns = METRIC_COLUMNS.filter((c) => RESULT_METRIC_KEYS.includes(c.key));
+  const latest = result?.weights[result.weights.length - 1];
+
+  if (series.length < 2) {
+    return <div className="text-slate-400 text-sm">至少選擇兩個因子</div>;
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-sm">
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold uppercase text-slate-400 tracking-wider">方法</span>
+          <select
+            className="rounded-lg border-slate-200 text-sm font-medium text-slate-700"
+            value={method}
+            onChange={(e) => setMethod(e.target.value as OptimizerMethod)}
+          >
+            {(Object.keys(OPTIMIZER_METHOD_LABELS) as OptimizerMethod[]).map((m) => (
+              <option key={m} value={m}>
+                {OPTIMIZER_METHOD_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold uppercase text-slate-400 tracking-wider">估計方式</span>
+          <select
+            className="rounded-lg border-slate-200 text-sm font-medium text-slate-700"
+            value={mode}
+            onChange={(e) => setMode(e.target.value as EstimationMode)}
+          >
+            {(Object.keys(ESTIMATION_MODE_LABELS) as EstimationMode[]).map((m) => (
+              <option key={m} value={m}>
+                {ESTIMATION_MODE_LABELS[m]}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold uppercase text-slate-400 tracking-wider">估計視窗</span>
+          <select
+            className="rounded-lg border-slate-200 text-sm font-medium text-slate-700"
+            value={lookback}
+            onChange={(e) => setLookback(Number(e.target.value))}
+          >
+            {LOOKBACK_OPTIONS.map((n) => (
+              <option key={n} value={n}>
+                {n} 交易日
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold uppercase text-slate-400 tracking-wider">權重下限 %</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            className="rounded-lg border-slate-200 text-sm font-medium text-slate-700"
+            value={minPct}
+            onChange={(e) => setMinPct(Math.min(100, Math.max(0, parseFloat(e.target.value || "0"))))}
+          />
+        </label>
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-bold uppercase text-slate-400 tracking-wider">權重上限 %</span>
+          <input
+            type="number"
+            min={0}
+            max={100}
+            className="rounded-lg border-slate-200 text-sm font-medium text-slate-700"
+            value={maxPct}
+            onChange={(e) => setMaxPct(Math.min(100, Math.max(0, parseFloat(e.target.value || "0"))))}
+          />
+        </label>
+      </div>
+
+      {boundsInvalid && (
+        <div className="rounded-lg bg-amber-50 border border-amber-200 px-4 py-2 text-xs text-amber-700">
+          {series.length} 個因子在此上下限下無法讓權重加總為 100%，已改用等權重
+        </div>
+      )}
+
+      {!result ? (
+        <div className="text-slate-400 text-sm">共同資料不足 {lookback} 個交易日，無法估計</div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+            <div>
+              <h4 className="text-sm font-bold text-slate-700 mb-2">樣本外淨值</h4>
+              <div className="w-full h-[300px]">
+                <Plot
+                  data={[
+                    {
+                      x: result.dates,
+                      y: toCum(result.ret),
+                      type: "scatter",
+                      mode: "lines",
+                      name: OPTIMIZER_METHOD_LABELS[method],
+                      line: { color: "#2563eb", width: 2 },
+                    },
+                    {
+                      x: result.dates,
+                      y: toCum(result.equalRet),
+                      type: "scatter",
+                      mode: "lines",
+                      name: "等權重",
+                      line: { color: "#94a3b8", width: 1.5, dash: "dot" },
+                    },
+                  ]}
+                  layout={{
+                    autosize: true,
+                    margin: { l: 40, r: 20, t: 10, b: 30 },
+                    showlegend: true,
+                    legend: { orientation: "h", y: 1.12 },
+                    xaxis: { gridcolor: "#f1f5f9" },
+                    yaxis: { gridcolor: "#f1f5f9" },
+                  }}
+                  style={{ width: "100%", height: "100%" }}
+                  useResizeHandler
+                  config={{ displayModeBar: false }}
+                />
+              </div>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-bold text-slate-700 mb-2">
+                權重變化{mode === "fixed" && "（固定估計期只估一次）"}
+              </h4>
+              <div className="w-full h-[300px]">
+                <Plot
+                  data={labels.map((label, i) => ({
+                    x: result.weights.map((w) => w.date),
+                    y: result.weights.map((w) => w.w[i]),
+                    type: "scatter",
+                    mode: "lines",
+                    stackgroup: "w",
+                    line: { shape: "hv", width: 0.5 },
+                    name: label,
+                    hovertemplate: `${label} %{y:.1%}<extra></extra>`,
+                  }))}
+                  layout={{
+                    autosize: true,
+                    margin: { l: 40, r: 20, t: 10, b: 30 },
+                    showlegend: true,
+                    legend: { orientation: "h", y: 1.12 },
+                    xaxis: { gridcolor: "#f1f5f9" },
+                    yaxis: { gridcolor: "#f1f5f9", tickformat: ".0%", range: [0, 1] },
+                  }}
+                  style={{ width: "100%", height: "100%" }}
+                  useResizeHandler
+                  config={{ displayModeBar: false }}
+                />
+              </div>
+            </div>
+          </div>
+
+          {latest && (
+            <div className="flex flex-wrap gap-2 text-xs">
+              <span className="font-bold text-slate-400 mr-1">最新權重（{latest.date}）</span>
+              {labels.map((label, i) => (
+                <span key={label} className="rounded-full border border-slate-200 bg-slate-50 px-2.5 py-1 font-medium text-slate-700">
+                  {label} {(latest.w[i] * 100).toFixed(1)}%
+                </span>
+              ))}
+            </div>
+          )}
+
+          <div className="overflow-x-auto rounded-xl border border-slate-200">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-slate-50 text-slate-500 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-2 font-semibold">樣本外 ({result.dates[0]} 起)</th>
+                  {columns.map((c) => (
+                    <th key={c.key} className="px-4 py-2 font-semibold whitespace-nowrap">
+                      {c.label}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rows.map((r) => (
+                  <tr key={r.label}>
+                    <td className="px-4 py-2 font-medium text-slate-900">{r.label}</td>
+                    {columns.map((c) => {
+                      const v = r.m[c.key as keyof typeof r.m];
+                      return (
+                        <td key={c.key} className={`px-4 py-2 whitespace-nowrap ${metricToneClass(c.tone, v)}`}>
+                          {formatMetric(c.format, v)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
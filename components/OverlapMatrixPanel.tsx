@@ -0,0 +1,230 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import { overlapMatrix, overlapSeries, type LabeledHoldings } from "@/lib/analytics/overlap";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+type Props = {
+  series: LabeledHoldings[];
+};
+
+type OverlapMetric = "jaccard" | "weighted" | "count";
+
+const METRIC_LABELS: Record<OverlapMetric, string> = { jaccard: "Jaccard", weighted: "權重重疊", count: "重疊檔數" };
+
+// 重疊最高的前幾組，用來找出名單幾乎相同的策略
+const TOP_PAIRS = 5;
+
+// 持股重疊矩陣；點格子看該組合逐月的重疊變化
+export default function OverlapMatrixPanel({ series }: Props) {
+  const [metric, setMetric] = useState<OverlapMetric>("jaccard");
+  // 空字串 = 最新月份
+  const [picked, setPicked] = useState("");
+  const [pair, setPair] = useState<[string, string] | null>(null);
+
+  const months = useMemo(
+    () => Array.from(new Set(series.flatMap((s) => s.holdings.months))).sort(),
+    [series]
+  );
+
+  const month = months.includes(picked) ? picked : (months[months.length - 1] ?? "");
+
+  const labels = series.map((s) => s.label);
+  const matrix = useMemo(() => overlapMatrix(series, month), [series, month]);
+
+  const topPairs = useMemo(() => {
+    const out: { i: number; j: number; jaccard: number; count: number }[] = [];
+    for (let i = 0; i < series.length; i++) {
+      for (let j = i + 1; j < series.length; j++) {
+        const v = matrix.jaccard[i][j];
+        if (v !== null) out.push({ i, j, jaccard: v, count: matrix.counts[i][j] });
+      }
+    }
+    return out.sort((a, b) => b.jaccard - a.jaccard).slice(0, TOP_PAIRS);
+  }, [series, matrix]);
+
+  const pairData = useMemo(() => {
+    if (!pair) return null;
+    const a = series.find((s) => s.name === pair[0]);
+    const b = series.find((s) => s.name === pair[1]);
+    if (!a || !b) return null;
+    return { a, b, over: overlapSeries(a.holdings, b.holdings) };
+  }, [series, pair]);
+
+  if (series.length < 2) {
+    return <div className="text-slate-400 text-sm">至少需要兩個有持股資料的因子或策略</div>;
+  }
+
+  const z = metric === "count" ? matrix.counts : matrix[metric];
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-xs text-slate-500">
+          Jaccard = 交集檔數 / 聯集檔數；權重重疊 = Σ min(兩邊權重)，沒有權重的名單以等權重計。點選格子查看逐月重疊
+        </p>
+        <div className="flex flex-wrap items-center gap-2">
+          <select
+            value={month}
+            onChange={(e) => setPicked(e.target.value)}
+            className="rounded-lg border-slate-200 bg-slate-50 text-sm font-medium text-slate-700 focus:border-indigo-500 focus:ring-indigo-500"
+          >
+            {months.map((m) => (
+              <option key={`overlap-month-${m}`} value={m}>
+                {m}
+              </option>
+            ))}
+          </select>
+          <div className="flex rounded-lg border border-slate-200 bg-slate-50 p-0.5">
+            {(Object.keys(METRIC_LABELS) as OverlapMetric[]).map((m) => (
+              <button
+                key={m}
+                onClick={() => setMetric(m)}
+                className={`rounded-md px-3 py-1 text-xs font-bold ${
+                  metric === m ? "bg-white text-indigo-600 shadow-sm" : "text-slate-500 hover:text-slate-700"
+                }`}
+              >
+                {METRIC_LABELS[m]}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="w-full" style={{ height: Math.max(320, 60 + series.length * 32) }}>
+        <Plot
+          data={[
+            {
+              type: "heatmap",
+              // 以 index 當座標，避免因子與策略同名時互相覆蓋
+              x: labels.map((_, i) => i),
+              y: labels.map((_, i) => i),
+              z,
+              zmin: 0,
+              ...(metric === "count" ? {} : { zmax: 1 }),
+              colorscale: [
+                [0, "#f8fafc"],
+                [1, "#4f46e5"],
+              ],
+              text: matrix.counts.map((row, i) =>
+                row.map((c, j) => {
+                  const jac = matrix.jaccard[i][j];
+                  const wov = matrix.weighted[i][j];
+                  return `${labels[i]} × ${labels[j]}<br>重疊 ${c} 檔（${matrix.sizes[i]} / ${matrix.sizes[j]}）<br>Jaccard ${
+                    jac === null ? "-" : jac.toFixed(2)
+                  }<br>權重重疊 ${wov === null ? "-" : `${(wov * 100).toFixed(1)}%`}`;
+                })
+              ),
+              texttemplate: metric === "count" ? "%{z}" : "%{z:.2f}",
+              hovertemplate: "%{text}<extra></extra>",
+              showscale: true,
+            },
+          ]}
+          layout={{
+            autosize: true,
+            margin: { l: 140, r: 20, t: 10, b: 120 },
+            xaxis: { tickvals: labels.map((_, i) => i), ticktext: labels, tickangle: -40 },
+            yaxis: { tickvals: labels.map((_, i) => i), ticktext: labels, autorange: "reversed" },
+          }}
+          onClick={(e) => {
+            const p = e?.points?.[0];
+            if (!p) return;
+            const i = Number(p.y);
+            const j = Number(p.x);
+            if (i === j || !series[i] || !series[j]) return;
+            setPair([series[i].name, series[j].name]);
+          }}
+          style={{ width: "100%", height: "100%" }}
+          useResizeHandler
+          config={{ displayModeBar: false }}
+        />
+      </div>
+
+      {topPairs.length > 0 && (
+        <div>
+          <div className="mb-2 text-xs font-bold text-slate-500">{month} 重疊最高的組合</div>
+          <div className="flex flex-wrap gap-2">
+            {topPairs.map(({ i, j, jaccard, count }) => (
+              <button
+                key={`${series[i].name}|${series[j].name}`}
+                onClick={() => setPair([series[i].name, series[j].name])}
+                className="rounded-full border border-slate-200 bg-white px-3 py-1 text-xs font-bold text-slate-600 hover:border-indigo-300 hover:text-indigo-700"
+              >
+                {labels[i]} × {labels[j]}
+                <span className="ml-1.5 font-mono text-indigo-600">{jaccard.toFixed(2)}</span>
+                <span className="ml-1 font-normal text-slate-400">{count} 檔</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {pairData && (
+        <div className="rounded-xl border border-slate-200 p-4">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-2">
+            <h4 className="text-sm font-bold text-slate-700">
+              逐月重疊：{pairData.a.label} × {pairData.b.label}
+            </h4>
+            <button
+              onClick={() => setPair(null)}
+              className="rounded-lg px-2 py-1 text-xs font-bold text-slate-400 hover:bg-slate-100 hover:text-slate-600"
+            >
+              關閉
+            </button>
+          </div>
+          {pairData.over.months.length === 0 ? (
+            <div className="py-8 text-center text-sm text-slate-400">兩者沒有共同的持股月份</div>
+          ) : (
+            <div className="w-full h-[260px]">
+              <Plot
+                data={[
+                  {
+                    x: pairData.over.months,
+                    y: pairData.over.counts,
+                    type: "bar",
+                    name: "重疊檔數",
+                    marker: { color: "#cbd5e1" },
+                    hovertemplate: "%{x}<br>重疊 %{y} 檔<extra></extra>",
+                  },
+                  {
+                    x: pairData.over.months,
+                    y: pairData.over.jaccard,
+                    type: "scatter",
+                    mode: "lines",
+                    name: "Jaccard",
+                    yaxis: "y2",
+                    line: { color: "#4f46e5", width: 1.5, shape: "hv" },
+                    hovertemplate: "%{x}<br>Jaccard %{y:.2f}<extra></extra>",
+                  },
+                  {
+                    x: pairData.over.months,
+                    y: pairData.over.weighted,
+                    type: "scatter",
+                    mode: "lines",
+                    name: "權重重疊",
+                    yaxis: "y2",
+                    line: { color: "#d97706", width: 1.5, dash: "dot", shape: "hv" },
+                    hovertemplate: "%{x}<br>權重重疊 %{y:.1%}<extra></extra>",
+                  },
+                ]}
+                layout={{
+                  autosize: true,
+                  margin: { l: 45, r: 45, t: 10, b: 30 },
+                  legend: { orientation: "h", y: 1.15 },
+                  xaxis: { gridcolor: "#f1f5f9" },
+                  yaxis: { gridcolor: "#f1f5f9", rangemode: "tozero" },
+                  yaxis2: { overlaying: "y", side: "right", range: [0, 1], tickformat: ".1f", showgrid: false },
+                }}
+                style={{ width: "100%", height: "100%" }}
+                useResizeHandler
+                config={{ displayModeBar: false }}
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,228 @@
+"use client";
+
+import React, { useState } from "react";
+import {
+  REBALANCE_LABELS,
+  describeWeights,
+  encodePortfolio,
+  newPortfolioId,
+  type PortfolioSpec,
+  type Rebalance,
+} from "@/lib/analytics/portfolio";
+import { copyText } from "@/lib/clipboard";
+
+type Props = {
+  factors: string[];
+  getLabel: (name: string) => string;
+  portfolios: PortfolioSpec[];
+  onChange: (portfolios: PortfolioSpec[]) => void;
+  /** 顯示在圖表 / 績效表的組合 id */
+  shown: string[];
+  onShownChange: (ids: string[]) => void;
+};
+
+type DraftRow = { factor: string; weight: number };
+type Draft = { id: string | null; name: string; rows: DraftRow[]; rebalance: Rebalance };
+
+/** 分享連結：目前頁面網址 + ?portfolio= */
+export function portfolioShareUrl(spec: PortfolioSpec) {
+  const url = new URL(window.location.href);
+  url.search = "";
+  url.searchParams.set("portfolio", encodePortfolio(spec));
+  return url.toString();
+}
+
+// 首頁左側的多因子組合設定：權重、再平衡頻率、本機儲存與分享
+export default function PortfolioBuilder({ factors, getLabel, portfolios, onChange, shown, onShownChange }: Props) {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const startNew = () => {
+    const base = factors.slice(0, 2);
+    setDraft({
+      id: null,
+      name: `組合 ${portfolios.length + 1}`,
+      rows: base.map((f) => ({ factor: f, weight: Math.round(100 / base.length) })),
+      rebalance: "monthly",
+    });
+  };
+
+  const startEdit = (p: PortfolioSpec) => {
+    setDraft({
+      id: p.id,
+      name: p.name,
+      rows: Object.entries(p.weights).map(([factor, w]) => ({ factor, weight: w })),
+      rebalance: p.rebalance,
+    });
+  };
+
+  const draftTotal = draft ? draft.rows.reduce((a, r) => a + (r.weight || 0), 0) : 0;
+  const draftValid = !!draft && draft.name.trim() !== "" && draft.rows.some((r) => r.factor && r.weight > 0);
+
+  const save = () => {
+    if (!draft || !draftValid) return;
+    const weights: Record<string, number> = {};
+    for (const r of draft.rows) if (r.factor && r.weight > 0) weights[r.factor] = (weights[r.factor] ?? 0) + r.weight;
+
+    const spec: PortfolioSpec = { id: draft.id ?? newPortfolioId(), name: draft.name.trim(), weights, rebalance: draft.rebalance };
+    onChange(draft.id ? portfolios.map((p) => (p.id === draft.id ? spec : p)) : [...portfolios, spec]);
+    if (!shown.includes(spec.id)) onShownChange([...shown, spec.id]);
+    setDraft(null);
+  };
+
+  const updateRow = (i: number, patch: Partial<DraftRow>) => {
+    if (!draft) return;
+    setDraft({ ...draft, rows: draft.rows.map((r, j) => (j === i ? { ...r, ...patch } : r)) });
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-xs font-bold uppercase text-slate-400 tracking-wider">多因子組合</label>
+        {!draft && (
+          <button onClick={startNew} className="text-xs font-bold text-blue-600 hover:text-blue-700">
+            + 新增組合
+          </button>
+        )}
+      </div>
+
+      {draft && (
+        <div className="mb-4 space-y-3 rounded-xl border border-blue-100 bg-blue-50/40 p-3">
+          <input
+            className="w-full rounded-lg border-slate-200 text-sm font-medium text-slate-700"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            placeholder="組合名稱"
+          />
+
+          <div className="space-y-2">
+            {draft.rows.map((r, i) => (
+              <div key={i} className="flex items-center gap-2">
+                <select
+                  className="min-w-0 flex-1 rounded-lg border-slate-200 py-1 text-sm text-slate-700"
+                  value={r.factor}
+                  onChange={(e) => updateRow(i, { factor: e.target.value })}
+                >
+                  {factors.map((f) => (
+                    <option key={f} value={f}>
+                      {getLabel(f)}
+                    </option>
+                  ))}
+                </select>
+                <div className="relative w-20">
+                  <input
+                    type="number"
+                    min={0}
+                    className="w-full rounded-lg border-slate-200 py-1 pl-2 pr-6 text-sm text-slate-700"
+                    value={r.weight}
+                    onChange={(e) => updateRow(i, { weight: Math.max(0, parseFloat(e.target.value || "0")) })}
+                  />
+                  <span className="absolute right-2 top-1.5 text-xs text-slate-400">%</span>
+                </div>
+                <button
+                  onClick={() => setDraft({ ...draft, rows: draft.rows.filter((_, j) => j !== i) })}
+                  className="text-slate-400 hover:text-rose-600 text-sm px-1"
+                  title="移除"
+                >
+                  ✕
+                </button>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex items-center justify-between text-xs">
+            <button
+              onClick={() =>
+                setDraft({ ...draft, rows: [...draft.rows, { factor: factors[0] ?? "", weight: 0 }] })
+              }
+              className="font-bold text-blue-600 hover:text-blue-700"
+            >
+              + 加入因子
+            </button>
+            <span className={draftTotal === 100 ? "text-slate-400" : "text-amber-600 font-medium"}>
+              合計 {draftTotal}%{draftTotal !== 100 && "（會依比例正規化）"}
+            </span>
+          </div>
+
+          <div className="flex items-center gap-2">
+            <span className="text-xs font-medium text-slate-500">再平衡</span>
+            <select
+              className="flex-1 rounded-lg border-slate-200 py-1 text-sm text-slate-700"
+              value={draft.rebalance}
+              onChange={(e) => setDraft({ ...draft, rebalance: e.target.value as Rebalance })}
+            >
+              {(Object.keys(REBALANCE_LABELS) as Rebalance[]).map((r) => (
+                <option key={r} value={r}>
+                  {REBALANCE_LABELS[r]}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => setDraft(null)}
+              className="rounded-lg px-3 py-1.5 text-xs font-bold text-slate-500 hover:bg-slate-100"
+            >
+              取消
+            </button>
+            <button
+              onClick={save}
+              disabled={!draftValid}
+              className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-bold text-white hover:bg-blue-700 disabled:opacity-40"
+            >
+              儲存
+            </button>
+          </div>
+        </div>
+      )}
+
+      {portfolios.length === 0 && !draft ? (
+        <p className="text-xs text-slate-400">尚未建立組合。組合只存在這台電腦的瀏覽器中，可用分享連結給別人。</p>
+      ) : (
+        <div className="space-y-2">
+          {portfolios.map((p) => {
+            const on = shown.includes(p.id);
+            return (
+              <div key={p.id} className="rounded-lg border border-slate-200 px-3 py-2">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    className="h-4 w-4 rounded border-slate-300 text-blue-600"
+                    checked={on}
+                    onChange={() => onShownChange(on ? shown.filter((id) => id !== p.id) : [...shown, p.id])}
+                  />
+                  <span className="flex-1 truncate text-sm font-bold text-slate-700">{p.name}</span>
+                  <button
+                    onClick={async () => {
+                      await copyText(portfolioShareUrl(p));
+                      setCopiedId(p.id);
+                    }}
+                    className="text-xs font-bold text-slate-400 hover:text-blue-600"
+                  >
+                    {copiedId === p.id ? "已複製" : "分享"}
+                  </button>
+                  <button onClick={() => startEdit(p)} className="text-xs font-bold text-slate-400 hover:text-blue-600">
+                    編輯
+                  </button>
+                  <button
+                    onClick={() => {
+                      onChange(portfolios.filter((x) => x.id !== p.id));
+                      onShownChange(shown.filter((id) => id !== p.id));
+                    }}
+                    className="text-xs font-bold text-slate-400 hover:text-rose-600"
+                  >
+                    刪除
+                  </button>
+                </div>
+                <div className="mt-1 pl-6 text-[11px] text-slate-500">
+                  {describeWeights(p.weights, getLabel)}｜{REBALANCE_LABELS[p.rebalance]}再平衡
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
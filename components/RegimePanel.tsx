@@ -0,0 +1,121 @@
+"use client";
+
+import React, { useMemo } from "react";
+import {
+  REGIME_LABELS,
+  currentRegime,
+  regimePerformance,
+  type Regime,
+  type RegimePeriod,
+} from "@/lib/analytics/regime";
+import type { MetricOptions } from "@/lib/analytics/metrics";
+import type { LabeledReturns } from "@/lib/analytics/series";
+
+type Props = {
+  periods: RegimePeriod[];
+  series: LabeledReturns[];
+  metricOptions?: MetricOptions;
+};
+
+const REGIMES: Regime[] = ["expansion", "contraction"];
+
+const REGIME_STYLE: Record<Regime, { head: string; badge: string }> = {
+  expansion: { head: "text-emerald-600", badge: "bg-emerald-100 text-emerald-700 border-emerald-200" },
+  contraction: { head: "text-rose-600", badge: "bg-rose-100 text-rose-700 border-rose-200" },
+};
+
+function fmtPct(x: number | null) {
+  return x === null ? "-" : `${(x * 100).toFixed(2)}%`;
+}
+
+function fmtDuration(days: number) {
+  if (days < 60) return `${days} 天`;
+  return `${(days / 30.44).toFixed(1)} 個月`;
+}
+
+// Global Wave 擴張 / 收縮期的因子表現
+export default function RegimePanel({ periods, series, metricOptions }: Props) {
+  const rows = useMemo(
+    () => series.map((s) => ({ s, stats: regimePerformance(s.dates, s.ret, periods, metricOptions) })),
+    [series, periods, metricOptions]
+  );
+
+  // 目前區間長度以最新一筆報酬日期計
+  const asof = series.reduce((a, s) => (s.dates.length && s.dates[s.dates.length - 1] > a ? s.dates[s.dates.length - 1] : a), "");
+  const now = asof ? currentRegime(periods, asof) : null;
+
+  if (!periods.length) {
+    return <div className="text-slate-400 text-sm">Global Wave 檔案沒有 events，無法切分景氣區間</div>;
+  }
+
+  return (
+    <div className="space-y-4">
+      {now && (
+        <div className="flex flex-wrap items-center gap-3 rounded-xl border border-slate-200 bg-slate-50 px-4 py-3 text-sm">
+          <span className="font-bold text-slate-500">目前區間</span>
+          <span className={`rounded-full border px-2.5 py-0.5 text-xs font-bold ${REGIME_STYLE[now.regime].badge}`}>
+            {REGIME_LABELS[now.regime]}
+          </span>
+          <span className="text-slate-600">
+            自 <span className="font-mono font-medium">{now.since}</span> 起
+            {now.days !== null && (
+              <>
+                ，已持續 <span className="font-bold text-slate-800">{fmtDuration(now.days)}</span>
+              </>
+            )}
+            <span className="text-slate-400">（截至 {asof}）</span>
+          </span>
+        </div>
+      )}
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-600 font-semibold">
+            <tr>
+              <th rowSpan={2} className="px-4 py-2 align-bottom">因子名稱</th>
+              {REGIMES.map((r) => (
+                <th key={r} colSpan={4} className={`px-4 pt-2 pb-1 text-center border-l border-slate-200 ${REGIME_STYLE[r].head}`}>
+                  {REGIME_LABELS[r]}
+                </th>
+              ))}
+            </tr>
+            <tr className="text-xs">
+              {REGIMES.map((r) => (
+                <React.Fragment key={r}>
+                  <th className="px-4 py-1.5 border-l border-slate-200">年化報酬</th>
+                  <th className="px-4 py-1.5">年化波動</th>
+                  <th className="px-4 py-1.5">Sharpe</th>
+                  <th className="px-4 py-1.5">勝率</th>
+                </React.Fragment>
+              ))}
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(({ s, stats }) => (
+              <tr key={s.name} className="hover:bg-slate-50 transition-colors">
+                <td className="px-4 py-3 font-medium">{s.label}</td>
+                {REGIMES.map((r) => {
+                  const st = stats[r];
+                  return (
+                    <React.Fragment key={r}>
+                      <td
+                        className={`px-4 py-3 border-l border-slate-100 font-bold ${
+                          st.annReturn === null ? "text-slate-400" : st.annReturn >= 0 ? "text-emerald-600" : "text-rose-600"
+                        }`}
+                      >
+                        {fmtPct(st.annReturn)}
+                      </td>
+                      <td className="px-4 py-3 text-slate-600">{fmtPct(st.annVol)}</td>
+                      <td className="px-4 py-3 text-slate-600">{st.sharpe === null ? "-" : st.sharpe.toFixed(2)}</td>
+                      <td className="px-4 py-3 text-slate-600">{fmtPct(st.hitRate)}</td>
+                    </React.Fragment>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+"use client";
+
+import React, { useMemo, useState } from "react";
+import dynamic from "next/dynamic";
+import type { MetricOptions } from "@/lib/analytics/metrics";
+import { ROLLING_WINDOWS, rollingMetrics, type RollingMetrics, type RollingSeries } from "@/lib/analytics/rolling";
+import type { ReturnsResp } from "@/lib/types";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+type Props = {
+  ret: ReturnsResp;
+  bench: ReturnsResp | null;
+  benchLabel?: string;
+  metricOptions?: MetricOptions;
+};
+
+type ChartDef = {
+  key: keyof RollingMetrics;
+  title: string;
+  pct: boolean;
+  color: string;
+  /** 參考線 (例如 Beta = 1) */
+  ref?: number;
+};
+
+const CHARTS: ChartDef[] = [
+  { key: "sharpe", title: "滾動 Sharpe", pct: false, color: "#2563eb", ref: 0 },
+  { key: "vol", title: "滾動年化波動", pct: true, color: "#7c3aed" },
+  { key: "ret", title: "滾動報酬", pct: true, color: "#059669", ref: 0 },
+  { key: "maxdd", title: "滾動最大回撤", pct: true, color: "#e11d48" },
+  { key: "beta", title: "滾動 Beta", pct: false, color: "#ea580c", ref: 1 },
+  { key: "correlation", title: "滾動相關係數", pct: false, color: "#0891b2", ref: 0 },
+];
+
+// 因子詳情的滾動視窗圖：看長期 edge 是否衰退
+export default function RollingMetricsPanel({ ret, bench, benchLabel, metricOptions }: Props) {
+  const [win, setWin] = useState(126);
+
+  const rolled = useMemo(
+    () => rollingMetrics(ret.dates, ret.ret, win, bench, metricOptions),
+    [ret, bench, win, metricOptions]
+  );
+  const enough = ret.ret.length >= win;
+
+  return (
+    <section className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6">
+      <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-3 mb-4">
+        <div>
+          <h2 className="text-lg font-bold text-slate-800">滾動視窗分析</h2>
+          <p className="text-sm text-slate-500">
+            每點為往回 {win} 個交易日的統計值
+            {bench ? `；Beta / 相關係數對照 ${benchLabel ?? "基準"}` : "；選擇基準後顯示 Beta 與相關係數"}
+          </p>
+        </div>
+        <div className="flex rounded-lg border border-slate-200 bg-slate-50 p-0.5">
+          {ROLLING_WINDOWS.map((w) => (
+            <button
+              key={w}
+              onClick={() => setWin(w)}
+              className={`rounded-md px-3 py-1 text-xs font-bold ${
+                win === w ? "bg-white text-blue-700 shadow-sm" : "text-slate-500 hover:text-slate-700"
+              }`}
+            >
+              {w} 日
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {!enough ? (
+        <div className="text-slate-400">資料不足 {win} 個交易日</div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          {CHARTS.map((c) => {
+            const s = rolled[c.key] as RollingSeries | null;
+            return (
+              <div key={c.key} className="rounded-xl border border-slate-100 bg-slate-50/50 p-3">
+                <div className="text-xs font-bold text-slate-500 mb-1">{c.title}</div>
+                {!s ? (
+                  <div className="h-[200px] flex items-center justify-center text-sm text-slate-400">未選擇基準</div>
+                ) : (
+                  <div className="w-full h-[200px]">
+                    <Plot
+                      data={[
+                        {
+                          x: s.dates,
+                          y: s.values,
+                          type: "scatter",
+                          mode: "lines",
+                          line: { color: c.color, width: 1.5 },
+                          hovertemplate: c.pct ? "%{x}<br>%{y:.2%}<extra></extra>" : "%{x}<br>%{y:.2f}<extra></extra>",
+                        },
+                      ]}
+                      layout={{
+                        autosize: true,
+                        margin: { l: 45, r: 10, t: 5, b: 30 },
+                        showlegend: false,
+                        paper_bgcolor: "rgba(0,0,0,0)",
+                        plot_bgcolor: "rgba(0,0,0,0)",
+                        xaxis: { gridcolor: "#f1f5f9" },
+                        yaxis: { gridcolor: "#e2e8f0", tickformat: c.pct ? ".0%" : ".2f", zeroline: false },
+                        shapes:
+                          c.ref === undefined
+                            ? []
+                            : [
+                                {
+                                  type: "line",
+                                  xref: "paper",
+                                  x0: 0,
+                                  x1: 1,
+                                  y0: c.ref,
+                                  y1: c.ref,
+                                  line: { color: "#94a3b8", width: 1, dash: "dot" },
+                                },
+                              ],
+                      }}
+                      style={{ width: "100%", height: "100%" }}
+                      useResizeHandler
+                      config={{ displayModeBar: false }}
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </section>
+  );
+}
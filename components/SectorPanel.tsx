@@ -0,0 +1,166 @@
+"use client";
+
+import React, { useMemo } from "react";
+import dynamic from "next/dynamic";
+import {
+  OTHER_SECTORS,
+  UNCLASSIFIED,
+  sectorComposition,
+  sectorTilt,
+  sectorsIn,
+} from "@/lib/analytics/sectors";
+import type { HoldingsResp, StockSectorsResp } from "@/lib/types";
+import BenchmarkSelect from "@/components/BenchmarkSelect";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+const PALETTE = ["#2563eb", "#e11d48", "#059669", "#d97706", "#7c3aed", "#0891b2", "#db2777", "#65a30d", "#ea580c"];
+
+const FIXED_COLORS: Record<string, string> = { [OTHER_SECTORS]: "#94a3b8", [UNCLASSIFIED]: "#cbd5e1" };
+
+type Props = {
+  holdings: HoldingsResp;
+  sectors: StockSectorsResp;
+  /** 產業偏離只看這個月 */
+  month: string;
+  benchOptions: string[];
+  benchName: string;
+  onBenchChange: (name: string) => void;
+  bench: HoldingsResp | null;
+  height?: number;
+};
+
+function pct(v: number, digits = 1) {
+  return `${(v * 100).toFixed(digits)}%`;
+}
+
+// 逐月產業配置（堆疊長條）與單月相對基準籃子的產業偏離（因子詳情、策略庫展開列共用）
+export default function SectorPanel({
+  holdings,
+  sectors,
+  month,
+  benchOptions,
+  benchName,
+  onBenchChange,
+  bench,
+  height = 300,
+}: Props) {
+  const comp = useMemo(() => sectorComposition(holdings, sectors), [holdings, sectors]);
+  const tilt = useMemo(
+    () => (bench && month ? sectorTilt(holdings, bench, sectors, month) : null),
+    [holdings, bench, sectors, month]
+  );
+
+  const colorOf = (s: string, i: number) => FIXED_COLORS[s] ?? PALETTE[i % PALETTE.length];
+
+  if (!comp.months.length) return <div className="text-slate-400 text-sm">沒有持股資料</div>;
+
+  return (
+    <div className="space-y-5">
+      <div className="w-full" style={{ height }}>
+        <Plot
+          data={comp.sectors.map((s, i) => ({
+            x: comp.months,
+            y: comp.weights[s],
+            type: "bar",
+            name: s,
+            marker: { color: colorOf(s, i) },
+            hovertemplate: "%{x}<br>" + s + " %{y:.1%}<extra></extra>",
+          }))}
+          layout={{
+            autosize: true,
+            barmode: "stack",
+            bargap: 0.1,
+            margin: { l: 45, r: 10, t: 10, b: 30 },
+            legend: { orientation: "h", y: -0.15 },
+            xaxis: { gridcolor: "#f1f5f9" },
+            yaxis: { gridcolor: "#f1f5f9", tickformat: ".0%", range: [0, 1] },
+          }}
+          style={{ width: "100%", height: "100%" }}
+          useResizeHandler
+          config={{ displayModeBar: false }}
+        />
+      </div>
+
+      <div>
+        <div className="mb-2 flex flex-wrap items-center justify-between gap-3">
+          <div className="text-sm font-bold text-slate-700">
+            {month} 產業偏離
+            {tilt && tilt.benchMonth !== month && (
+              <span className="ml-2 text-xs font-normal text-slate-400">基準使用 {tilt.benchMonth} 名單</span>
+            )}
+          </div>
+          <BenchmarkSelect options={benchOptions} value={benchName} onChange={onBenchChange} />
+        </div>
+
+        {!benchName ? (
+          <div className="text-slate-400 text-sm">選擇基準籃子以比較產業偏離</div>
+        ) : !tilt ? (
+          <div className="text-slate-400 text-sm">基準「{benchName}」在 {month} 之前沒有持股資料</div>
+        ) : (
+          <div className="overflow-x-auto rounded-xl border border-slate-200">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-slate-50 text-slate-500 border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-2 font-semibold">產業</th>
+                  <th className="px-4 py-2 font-semibold text-right">權重</th>
+                  <th className="px-4 py-2 font-semibold text-right">{benchName}</th>
+                  <th className="px-4 py-2 font-semibold">偏離</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {tilt.rows.map((r) => (
+                  <tr key={r.sector}>
+                    <td className="px-4 py-1.5 font-medium text-slate-800">{r.sector}</td>
+                    <td className="px-4 py-1.5 text-right font-mono text-slate-600">{pct(r.weight)}</td>
+                    <td className="px-4 py-1.5 text-right font-mono text-slate-400">{pct(r.bench)}</td>
+                    <td className="px-4 py-1.5">
+                      <div className="flex items-center gap-2">
+                        <div className="relative h-2 w-32 rounded bg-slate-100">
+                          <div
+                            className={`absolute top-0 h-2 rounded ${r.tilt >= 0 ? "left-1/2 bg-emerald-500" : "right-1/2 bg-rose-500"}`}
+                            style={{ width: `${Math.min(50, Math.abs(r.tilt) * 100)}%` }}
+                          />
+                        </div>
+                        <span className={`font-mono text-xs font-bold ${r.tilt >= 0 ? "text-emerald-600" : "text-rose-600"}`}>
+                          {r.tilt >= 0 ? "+" : ""}
+                          {pct(r.tilt)}
+                        </span>
+                      </div>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+type FilterProps = {
+  tickers: string[];
+  sectors: StockSectorsResp;
+  value: string;
+  onChange: (sector: string) => void;
+};
+
+// 持股名單的產業篩選；空字串 = 全部
+export function SectorFilter({ tickers, sectors, value, onChange }: FilterProps) {
+  const options = useMemo(() => sectorsIn(tickers, sectors), [tickers, sectors]);
+  return (
+    <select
+      value={options.includes(value) ? value : ""}
+      onChange={(e) => onChange(e.target.value)}
+      className="rounded-lg border-slate-200 bg-white text-sm font-medium text-slate-700 focus:border-blue-500 focus:ring-blue-500"
+    >
+      <option value="">全部產業</option>
+      {options.map((s) => (
+        <option key={s} value={s}>
+          {s}
+        </option>
+      ))}
+    </select>
+  );
+}
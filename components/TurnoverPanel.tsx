@@ -0,0 +1,105 @@
+"use client";
+
+import React, { useMemo } from "react";
+import dynamic from "next/dynamic";
+import { summarizeTurnover, type CostModel, type TurnoverPoint } from "@/lib/analytics/turnover";
+
+const Plot = dynamic(() => import("react-plotly.js"), { ssr: false });
+
+export type TurnoverSeries = {
+  name: string;
+  label: string;
+  points: TurnoverPoint[];
+};
+
+type Props = {
+  series: TurnoverSeries[];
+  model: CostModel;
+  height?: number;
+};
+
+function pct(v: number, digits = 1) {
+  return `${(v * 100).toFixed(digits)}%`;
+}
+
+// 逐月單邊換手率與年化成本拖累（首頁、策略庫展開列共用）
+export default function TurnoverPanel({ series, model, height = 260 }: Props) {
+  const withData = useMemo(() => series.filter((s) => s.points.length), [series]);
+
+  const rows = useMemo(
+    () => withData.map((s) => ({ s, summary: summarizeTurnover(s.points, model)! })),
+    [withData, model]
+  );
+
+  if (!withData.length) return <div className="text-slate-400 text-sm">沒有可計算換手率的持股資料（至少需要兩個月）</div>;
+
+  return (
+    <div className="space-y-4">
+      <div className="w-full" style={{ height }}>
+        <Plot
+          data={withData.map((s) => ({
+            x: s.points.map((p) => p.month),
+            y: s.points.map((p) => p.turnover),
+            customdata: s.points.map((p) => [p.added, p.removed, p.effectiveN.toFixed(1)]),
+            type: "scatter",
+            mode: "lines+markers",
+            marker: { size: 4 },
+            line: { width: 1.5, shape: "hv" },
+            name: s.label,
+            hovertemplate: "%{x}<br>換手 %{y:.1%}（+%{customdata[0]} / -%{customdata[1]}）<br>有效檔數 %{customdata[2]}<extra>" + s.label + "</extra>",
+          }))}
+          layout={{
+            autosize: true,
+            margin: { l: 45, r: 10, t: 10, b: 30 },
+            showlegend: withData.length > 1,
+            legend: { orientation: "h", y: 1.15 },
+            xaxis: { gridcolor: "#f1f5f9" },
+            yaxis: { gridcolor: "#f1f5f9", tickformat: ".0%", rangemode: "tozero" },
+          }}
+          style={{ width: "100%", height: "100%" }}
+          useResizeHandler
+          config={{ displayModeBar: false }}
+        />
+      </div>
+
+      <div className="overflow-x-auto rounded-xl border border-slate-200">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-500 border-b border-slate-200">
+            <tr>
+              <th className="px-4 py-2 font-semibold">名稱</th>
+              <th className="px-4 py-2 font-semibold whitespace-nowrap">平均單月換手</th>
+              <th className="px-4 py-2 font-semibold whitespace-nowrap">年化換手</th>
+              <th className="px-4 py-2 font-semibold whitespace-nowrap" title="年化換手 × 來回成本">
+                每年成本拖累
+              </th>
+              <th className="px-4 py-2 font-semibold whitespace-nowrap">最近一月</th>
+              <th className="px-4 py-2 font-semibold whitespace-nowrap" title="1 / Σw²；等權重時等於檔數">
+                有效檔數
+              </th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {rows.map(({ s, summary }) => {
+              const last = s.points[s.points.length - 1];
+              return (
+                <tr key={s.name}>
+                  <td className="px-4 py-2 font-medium text-slate-900">{s.label}</td>
+                  <td className="px-4 py-2 text-slate-600">{pct(summary.monthly)}</td>
+                  <td className="px-4 py-2 text-slate-600">{pct(summary.annual, 0)}</td>
+                  <td className="px-4 py-2 font-bold text-rose-600">-{pct(summary.annualCost, 2)}</td>
+                  <td className="px-4 py-2 text-slate-600 whitespace-nowrap">
+                    {last.month} {pct(last.turnover)}
+                    <span className="ml-1 text-xs text-slate-400">
+                      +{last.added} / -{last.removed}
+                    </span>
+                  </td>
+                  <td className="px-4 py-2 font-mono text-slate-600">{last.effectiveN.toFixed(1)}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,111 @@
+/** =========================
+ * 相對基準的績效指標
+ * =========================
+ * 慣例：
+ * - 只用兩邊都有資料的交易日（依日期字串對齊）
+ * - Alpha 為 Jensen's alpha，以超額報酬 (扣 rf) 計算後年化
+ * - 上檔 / 下檔捕獲率 = 基準上漲 (下跌) 日的平均報酬 / 基準同日平均報酬
+ */
+import type { ReturnsResp } from "../types";
+import { riskFreeDaily, type MetricOptions } from "./metrics";
+import { compound, correlation, covariance, mean, stdev } from "./series";
+
+/** 首頁、策略庫、因子詳情預設的基準順序 */
+export const BENCHMARK_PRIORITY = ["TWA00", "Top200"];
+
+export type BenchmarkMetrics = {
+  excessCagr: number | null;
+  beta: number | null;
+  alpha: number | null;
+  trackingError: number | null;
+  infoRatio: number | null;
+  upCapture: number | null;
+  downCapture: number | null;
+  correlation: number | null;
+};
+
+export const EMPTY_BENCHMARK_METRICS: BenchmarkMetrics = {
+  excessCagr: null,
+  beta: null,
+  alpha: null,
+  trackingError: null,
+  infoRatio: null,
+  upCapture: null,
+  downCapture: null,
+  correlation: null,
+};
+
+/** 清單中第一個可用的預設基準；都沒有時回傳空字串 */
+export function defaultBenchmark(list: string[]) {
+  return BENCHMARK_PRIORITY.find((b) => list.includes(b)) ?? "";
+}
+
+/** 基準排在前面，其餘維持原順序 */
+export function orderBenchmarkOptions(list: string[]) {
+  const head = BENCHMARK_PRIORITY.filter((b) => list.includes(b));
+  return [...head, ...list.filter((f) => !head.includes(f))];
+}
+
+/** 依日期對齊兩條日報酬；x 為標的、y 為基準 */
+export function alignReturns(dates: string[], ret: number[], bench: ReturnsResp) {
+  const byDate = new Map<string, number>();
+  for (let i = 0; i < bench.dates.length; i++) byDate.set(bench.dates[i], bench.ret[i]);
+
+  const out = { dates: [] as string[], x: [] as number[], y: [] as number[] };
+  for (let i = 0; i < dates.length; i++) {
+    const b = byDate.get(dates[i]);
+    if (b === undefined) continue;
+    out.dates.push(dates[i]);
+    out.x.push(ret[i]);
+    out.y.push(b);
+  }
+  return out;
+}
+
+function captureRatio(x: number[], y: number[], up: boolean) {
+  const xs: number[] = [];
+  const ys: number[] = [];
+  for (let i = 0; i < y.length; i++) {
+    if (up ? y[i] > 0 : y[i] < 0) {
+      xs.push(x[i]);
+      ys.push(y[i]);
+    }
+  }
+  const by = mean(ys);
+  return ys.length && by !== 0 ? mean(xs) / by : null;
+}
+
+export function calcBenchmarkMetrics(
+  dates: string[],
+  ret: number[],
+  bench: ReturnsResp | null,
+  opts: MetricOptions = {}
+): BenchmarkMetrics {
+  if (!bench) return { ...EMPTY_BENCHMARK_METRICS };
+  const { freq = 252 } = opts;
+  const { dates: common, x, y } = alignReturns(dates, ret, bench);
+  const n = x.length;
+  if (n < 2) return { ...EMPTY_BENCHMARK_METRICS };
+
+  const cagr = (r: number[]) => Math.pow(1 + compound(r), freq / n) - 1;
+
+  const varY = stdev(y) ** 2;
+  const beta = varY === 0 ? null : covariance(x, y) / varY;
+
+  const rfDaily = mean(riskFreeDaily(common, opts));
+  const alpha = beta === null ? null : (mean(x) - rfDaily - beta * (mean(y) - rfDaily)) * freq;
+
+  const active = x.map((r, i) => r - y[i]);
+  const te = stdev(active) * Math.sqrt(freq);
+
+  return {
+    excessCagr: cagr(x) - cagr(y),
+    beta,
+    alpha,
+    trackingError: te,
+    infoRatio: te === 0 ? null : (mean(active) * freq) / te,
+    upCapture: captureRatio(x, y, true),
+    downCapture: captureRatio(x, y, false),
+    correlation: correlation(x, y),
+  };
+}
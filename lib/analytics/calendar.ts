@@ -0,0 +1,52 @@
+/** =========================
+ * 年 × 月報酬表
+ * =========================
+ * 以日報酬連乘出每月與每年報酬；資料只涵蓋部分月份 / 年份時照樣計算（最後一年即 YTD）。
+ */
+import type { ReturnsResp } from "../types";
+import { monthlyReturns } from "./series";
+
+export type CalendarYear = {
+  year: string;
+  /** 1 ~ 12 月，沒有資料為 null */
+  months: (number | null)[];
+  /** 全年（最後一年為 YTD）；超額表中基準缺整年資料時為 null */
+  total: number | null;
+};
+
+export function calendarReturns(dates: string[], ret: number[]): CalendarYear[] {
+  const byYear = new Map<string, CalendarYear>();
+  for (const [m, r] of monthlyReturns(dates, ret)) {
+    const year = m.slice(0, 4);
+    const idx = Number(m.slice(5, 7)) - 1;
+    if (!(idx >= 0 && idx < 12)) continue;
+    if (!byYear.has(year)) byYear.set(year, { year, months: Array(12).fill(null), total: 0 });
+    byYear.get(year)!.months[idx] = r;
+  }
+
+  const years = Array.from(byYear.values()).sort((a, b) => a.year.localeCompare(b.year));
+  for (const y of years) {
+    y.total = y.months.reduce<number>((nav, r) => nav * (1 + (r ?? 0)), 1) - 1;
+  }
+  return years;
+}
+
+/** 標的減基準的逐月 / 逐年超額報酬；基準缺資料的格子為 null */
+export function calendarExcess(target: CalendarYear[], bench: ReturnsResp): CalendarYear[] {
+  const b = new Map(calendarReturns(bench.dates, bench.ret).map((y) => [y.year, y]));
+  return target.map((y) => {
+    const by = b.get(y.year);
+    return {
+      year: y.year,
+      months: y.months.map((r, i) => {
+        const br = by?.months[i];
+        return r === null || br === null || br === undefined ? null : r - br;
+      }),
+      // 年度超額只比較兩邊都有資料的月份
+      total: by
+        ? y.months.reduce<number>((nav, r, i) => (r === null || by.months[i] === null ? nav : nav * (1 + r)), 1) -
+          y.months.reduce<number>((nav, r, i) => (r === null || by.months[i] === null ? nav : nav * (1 + by.months[i]!)), 1)
+        : null,
+    };
+  });
+}
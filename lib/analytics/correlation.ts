@@ -0,0 +1,80 @@
+/** =========================
+ * 相關係數矩陣
+ * =========================
+ * 先把各序列轉成同一頻率（週 / 月為期間內連乘），再只取所有序列都有資料的期間計算，
+ * 因此矩陣內每一格使用的樣本相同。
+ */
+import { alignReturns } from "./benchmark";
+import { rolling, type RollingSeries } from "./rolling";
+import { correlation, monthKey, parseDate, type LabeledReturns } from "./series";
+
+export type ReturnFrequency = "daily" | "weekly" | "monthly";
+
+export const FREQUENCY_LABELS: Record<ReturnFrequency, string> = {
+  daily: "日",
+  weekly: "週",
+  monthly: "月",
+};
+
+/** 該日所在週的週一 (YYYY-MM-DD) */
+function weekKey(date: string) {
+  const d = parseDate(date);
+  if (!d) return date;
+  const day = (d.getUTCDay() + 6) % 7;
+  d.setUTCDate(d.getUTCDate() - day);
+  return d.toISOString().slice(0, 10);
+}
+
+/** 轉成週 / 月報酬；日期為期間代號（週一或 YYYY-MM） */
+export function resampleReturns(dates: string[], ret: number[], freq: ReturnFrequency) {
+  if (freq === "daily") return { dates, ret };
+  const keyOf = freq === "weekly" ? weekKey : monthKey;
+
+  const out = { dates: [] as string[], ret: [] as number[] };
+  let cur = "";
+  let nav = 1;
+  for (let i = 0; i < dates.length; i++) {
+    const k = keyOf(dates[i]);
+    if (k !== cur) {
+      if (cur) {
+        out.dates.push(cur);
+        out.ret.push(nav - 1);
+      }
+      cur = k;
+      nav = 1;
+    }
+    nav *= 1 + ret[i];
+  }
+  if (cur) {
+    out.dates.push(cur);
+    out.ret.push(nav - 1);
+  }
+  return out;
+}
+
+export type CorrelationMatrix = {
+  names: string[];
+  matrix: (number | null)[][];
+  /** 共同期間數 */
+  n: number;
+};
+
+export function correlationMatrix(series: LabeledReturns[], freq: ReturnFrequency): CorrelationMatrix {
+  const resampled = series.map((s) => resampleReturns(s.dates, s.ret, freq));
+
+  // 所有序列都有的期間
+  const counts = new Map<string, number>();
+  for (const r of resampled) for (const k of new Set(r.dates)) counts.set(k, (counts.get(k) ?? 0) + 1);
+  const periods = new Set([...counts].filter(([, c]) => c === resampled.length).map(([k]) => k));
+
+  const cols = resampled.map((r) => r.ret.filter((_, i) => periods.has(r.dates[i])));
+  const matrix = cols.map((a, i) => cols.map((b, j) => (i === j ? 1 : cols[0].length < 3 ? null : correlation(a, b))));
+
+  return { names: series.map((s) => s.name), matrix, n: periods.size };
+}
+
+/** 兩條日報酬的滾動相關係數 */
+export function rollingCorrelation(a: LabeledReturns, b: LabeledReturns, window: number): RollingSeries {
+  const al = alignReturns(a.dates, a.ret, b);
+  return rolling(al.dates, al.x, window, (xs, start, end) => correlation(xs, al.y.slice(start, end)));
+}
@@ -0,0 +1,89 @@
+/** =========================
+ * 報酬分配
+ * =========================
+ * 直方圖以機率密度表示（面積 = 1），才能與常態分配曲線及基準的直方圖疊在一起比較。
+ * 尾部次數以樣本平均 ± kσ 計，並附上常態分配下的理論比例。
+ */
+import { moments } from "./metrics";
+import { mean, stdev } from "./series";
+import { normCdf, normInv } from "./significance";
+
+export type DistributionStats = {
+  n: number;
+  mean: number;
+  sd: number;
+  skew: number | null;
+  kurtosis: number | null;
+  /** 低於 / 高於平均 ± 2σ、± 3σ 的比例 */
+  down2: number;
+  up2: number;
+  down3: number;
+  up3: number;
+};
+
+/** 常態分配下單邊超過 kσ 的比例 */
+export function normalTail(k: number) {
+  return 1 - normCdf(k);
+}
+
+export function normalPdf(x: number, mu: number, sd: number) {
+  if (sd <= 0) return 0;
+  const z = (x - mu) / sd;
+  return Math.exp(-0.5 * z * z) / (sd * Math.sqrt(2 * Math.PI));
+}
+
+export function distributionStats(ret: number[]): DistributionStats {
+  const n = ret.length;
+  const m = mean(ret);
+  const sd = stdev(ret);
+  const share = (pred: (x: number) => boolean) => (n ? ret.filter(pred).length / n : 0);
+  return {
+    n,
+    mean: m,
+    sd,
+    ...moments(ret),
+    down2: share((x) => x < m - 2 * sd),
+    up2: share((x) => x > m + 2 * sd),
+    down3: share((x) => x < m - 3 * sd),
+    up3: share((x) => x > m + 3 * sd),
+  };
+}
+
+/** 多個序列共用的分組邊界（兩端各截掉 0.1% 極端值，避免一兩個離群值把圖壓扁） */
+export function histogramEdges(series: number[][], bins = 50) {
+  const all = series.flat().sort((a, b) => a - b);
+  if (!all.length) return [];
+  const cut = Math.floor(all.length * 0.001);
+  const lo = all[cut];
+  const hi = all[all.length - 1 - cut];
+  if (hi <= lo) return [lo, lo + 1e-9];
+  const width = (hi - lo) / bins;
+  return Array.from({ length: bins + 1 }, (_, i) => lo + i * width);
+}
+
+/** 依邊界計算密度；超出邊界的值併入最外側的組 */
+export function histogram(ret: number[], edges: number[]) {
+  const bins = edges.length - 1;
+  if (bins < 1 || !ret.length) return { centers: [] as number[], density: [] as number[] };
+  const width = edges[1] - edges[0];
+  const counts = new Array(bins).fill(0);
+  for (const x of ret) {
+    const i = Math.min(bins - 1, Math.max(0, Math.floor((x - edges[0]) / width)));
+    counts[i]++;
+  }
+  return {
+    centers: counts.map((_, i) => edges[i] + width / 2),
+    density: counts.map((c) => c / (ret.length * width)),
+  };
+}
+
+/** QQ 圖：標準化後的樣本分位數 vs 常態理論分位數 */
+export function qqPoints(ret: number[]) {
+  const n = ret.length;
+  const m = mean(ret);
+  const sd = stdev(ret);
+  if (n < 3 || sd === 0) return { theoretical: [] as number[], sample: [] as number[] };
+  const sample = ret.map((x) => (x - m) / sd).sort((a, b) => a - b);
+  const theoretical = sample.map((_, i) => normInv((i + 0.5) / n));
+  return { theoretical, sample };
+}
@@ -0,0 +1,75 @@
+/** =========================
+ * 回撤分析：水下曲線與回撤事件
+ * =========================
+ * 一段回撤 = 從前高 (peak) 跌落，到淨值重新站回前高 (recovery) 為止；
+ * 資料結束時尚未收復者 recoveryDate 為 null。期間皆以交易日數計。
+ * 從第一天就開始的回撤，前高記為資料第一天（谷底也在第一天時 toTrough = 0）。
+ */
+
+/** 每日距前高的跌幅（0 或負數） */
+export function underwater(ret: number[]) {
+  let nav = 1;
+  let peak = 1;
+  return ret.map((r) => {
+    nav *= 1 + r;
+    if (nav > peak) peak = nav;
+    return nav / peak - 1;
+  });
+}
+
+export type DrawdownEpisode = {
+  peakDate: string;
+  troughDate: string;
+  recoveryDate: string | null;
+  /** 最深跌幅（負數） */
+  depth: number;
+  /** 前高到收復（或資料結束）的交易日數 */
+  length: number;
+  /** 前高到谷底 */
+  toTrough: number;
+  /** 谷底到收復；尚未收復為 null */
+  toRecover: number | null;
+};
+
+/** 所有回撤事件，依深度排序（最深在前） */
+export function drawdownEpisodes(dates: string[], ret: number[]): DrawdownEpisode[] {
+  const dd = underwater(ret);
+  const out: DrawdownEpisode[] = [];
+
+  let start = -1; // 前高那天的 index；-1 代表起始淨值 1
+  let inDd = false;
+  let trough = 0;
+
+  const close = (endIdx: number | null) => {
+    // 第一天就下跌時以第一天當前高，日期與天數都從 index 0 起算
+    const peakIdx = Math.max(start, 0);
+    const last = endIdx ?? dd.length - 1;
+    out.push({
+      peakDate: dates[peakIdx],
+      troughDate: dates[trough],
+      recoveryDate: endIdx === null ? null : dates[endIdx],
+      depth: dd[trough],
+      length: last - peakIdx,
+      toTrough: trough - peakIdx,
+      toRecover: endIdx === null ? null : endIdx - trough,
+    });
+  };
+
+  for (let i = 0; i < dd.length; i++) {
+    if (dd[i] < 0) {
+      if (!inDd) {
+        inDd = true;
+        trough = i;
+      } else if (dd[i] < dd[trough]) {
+        trough = i;
+      }
+    } else {
+      if (inDd) close(i);
+      inDd = false;
+      start = i;
+    }
+  }
+  if (inDd) close(null);
+
+  return out.sort((a, b) => a.depth - b.depth);
+}
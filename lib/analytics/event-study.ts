@@ -0,0 +1,89 @@
+/** =========================
+ * 自訂事件研究
+ * =========================
+ * 事件日對齊到報酬序列的交易日曆：事件日當天或之後第一個交易日為 T。
+ * 累積報酬自 T-k 開始連乘，T+k 為止；視窗不完整（資料頭尾）的事件略過。
+ * 信賴區間為平均值 ± 1.96 × 標準誤。
+ */
+import { compound, mean, parseDate, stdev, type LabeledReturns } from "./series";
+
+export const EVENT_WINDOWS = [5, 10, 20, 60];
+
+/** 解析貼上的日期：每行或以逗號 / 空白分隔，接受 2024-01-05、2024/1/5、20240105 */
+export function parseEventDates(text: string) {
+  const valid = new Set<string>();
+  const invalid: string[] = [];
+  for (const token of text.split(/[\s,;]+/).filter(Boolean)) {
+    const m = token.match(/^(\d{4})[-/.]?(\d{1,2})[-/.]?(\d{1,2})$/);
+    const iso = m ? `${m[1]}-${m[2].padStart(2, "0")}-${m[3].padStart(2, "0")}` : "";
+    const d = iso ? parseDate(iso) : null;
+    if (d && d.toISOString().slice(0, 10) === iso) valid.add(iso);
+    else invalid.push(token);
+  }
+  return { dates: Array.from(valid).sort(), invalid };
+}
+
+export type EventRow = {
+  event: string;
+  /** 對齊後的 T 日；無法對齊為 null */
+  tradeDate: string | null;
+  /** T-k ~ T-1 */
+  pre: number | null;
+  /** T ~ T+k */
+  post: number | null;
+  total: number | null;
+  skipped?: string;
+};
+
+export type EventStudyResult = {
+  offsets: number[];
+  mean: number[];
+  lower: number[];
+  upper: number[];
+  rows: EventRow[];
+  /** 有完整視窗的事件數 */
+  n: number;
+};
+
+export function eventStudy(s: LabeledReturns, events: string[], k: number): EventStudyResult {
+  const offsets = Array.from({ length: 2 * k + 1 }, (_, i) => i - k);
+  const paths: number[][] = [];
+  const rows: EventRow[] = [];
+
+  for (const event of events) {
+    const t = s.dates.findIndex((d) => d >= event);
+    const row: EventRow = { event, tradeDate: t === -1 ? null : s.dates[t], pre: null, post: null, total: null };
+    if (t === -1) {
+      rows.push({ ...row, skipped: "晚於資料最後一日" });
+      continue;
+    }
+    if (t - k < 0 || t + k >= s.ret.length) {
+      rows.push({ ...row, skipped: "視窗超出資料範圍" });
+      continue;
+    }
+
+    const window = s.ret.slice(t - k, t + k + 1);
+    let nav = 1;
+    paths.push(window.map((r) => (nav *= 1 + r) - 1));
+    rows.push({
+      ...row,
+      pre: compound(window.slice(0, k)),
+      post: compound(window.slice(k)),
+      total: compound(window),
+    });
+  }
+
+  const n = paths.length;
+  const col = (i: number) => paths.map((p) => p[i]);
+  const m = offsets.map((_, i) => mean(col(i)));
+  const se = offsets.map((_, i) => (n > 1 ? stdev(col(i)) / Math.sqrt(n) : 0));
+
+  return {
+    offsets,
+    mean: m,
+    lower: m.map((x, i) => x - 1.96 * se[i]),
+    upper: m.map((x, i) => x + 1.96 * se[i]),
+    rows,
+    n,
+  };
+}
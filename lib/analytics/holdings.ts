@@ -0,0 +1,157 @@
+/** =========================
+ * 持股名單的月對月變動
+ * =========================
+ * - 新增 / 刪除 / 續留以兩個月份的名單集合比較，續留率 = 續留檔數 / 前一期檔數
+ * - 連續持有期（streak）以「連續出現在名單中的月數」計，中間缺一個月就斷開
+ *   （以日曆月判斷：持股檔案沒有列出的月份也算斷開）
+ * - 月份依字串排序（YYYY-MM），名單為空的月份視為沒有持股
+ * - 個股頁：同一檔股票跨所有因子 / 策略的進出紀錄
+ */
+import type { HoldingsResp } from "../types";
+import type { LabeledHoldings } from "./overlap";
+import { mean, monthKey } from "./series";
+
+export type HoldingsDiff = {
+  from: string;
+  to: string;
+  added: string[];
+  removed: string[];
+  kept: string[];
+  /** 續留率；前一期沒有持股時為 null */
+  retention: number | null;
+};
+
+export type HoldingRun = {
+  start: string;
+  end: string;
+  /** 月數 */
+  length: number;
+};
+
+export function sortedMonths(h: HoldingsResp) {
+  return [...h.months].sort();
+}
+
+/** 日曆上的前一個月（YYYY-MM） */
+export function prevMonthKey(month: string) {
+  const y = Number(month.slice(0, 4));
+  const m = Number(month.slice(5, 7));
+  return m > 1 ? `${y}-${String(m - 1).padStart(2, "0")}` : `${y - 1}-12`;
+}
+
+/** 兩個月份在日曆上相鄰（prev 是 month 的前一個月） */
+function isConsecutive(prev: string | undefined, month: string) {
+  return !!prev && monthKey(prev) === prevMonthKey(monthKey(month));
+}
+
+/** 前一個有資料的月份 */
+export function previousMonth(h: HoldingsResp, month: string) {
+  const months = sortedMonths(h);
+  const i = months.indexOf(month);
+  return i > 0 ? months[i - 1] : null;
+}
+
+export function diffHoldings(h: HoldingsResp, from: string, to: string): HoldingsDiff {
+  const a = Array.from(new Set(h.holdings[from] ?? []));
+  const b = Array.from(new Set(h.holdings[to] ?? []));
+  const setA = new Set(a);
+  const setB = new Set(b);
+  const kept = b.filter((t) => setA.has(t));
+  return {
+    from,
+    to,
+    added: b.filter((t) => !setA.has(t)),
+    removed: a.filter((t) => !setB.has(t)),
+    kept,
+    retention: a.length ? kept.length / a.length : null,
+  };
+}
+
+/** 每檔股票的所有連續持有期 */
+export function holdingRuns(h: HoldingsResp): Record<string, HoldingRun[]> {
+  const months = sortedMonths(h);
+  const runs: Record<string, HoldingRun[]> = {};
+
+  months.forEach((m, i) => {
+    for (const t of new Set(h.holdings[m] ?? [])) {
+      const list = (runs[t] ??= []);
+      const last = list[list.length - 1];
+      if (last && last.end === months[i - 1] && isConsecutive(last.end, m)) {
+        last.end = m;
+        last.length++;
+      } else {
+        list.push({ start: m, end: m, length: 1 });
+      }
+    }
+  });
+  return runs;
+}
+
+/** month 名單內每檔股票截至該月已連續持有幾個月 */
+export function streaksAt(h: HoldingsResp, month: string): Record<string, number> {
+  const months = sortedMonths(h);
+  const i = months.indexOf(month);
+  const out: Record<string, number> = {};
+  if (i < 0) return out;
+  for (const t of new Set(h.holdings[month] ?? [])) {
+    let n = 1;
+    for (let j = i - 1; j >= 0; j--) {
+      if (!isConsecutive(months[j], months[j + 1]) || !(h.holdings[months[j]] ?? []).includes(t)) break;
+      n++;
+    }
+    out[t] = n;
+  }
+  return out;
+}
+
+/** 每檔股票平均每段連續持有幾個月 */
+export function averageStreak(runs: HoldingRun[] | undefined) {
+  return runs?.length ? mean(runs.map((r) => r.length)) : null;
+}
+
+/** 各月持股檔數 */
+export function holdingsCountTimeline(h: HoldingsResp) {
+  const months = sortedMonths(h);
+  return { months, counts: months.map((m) => new Set(h.holdings[m] ?? []).size) };
+}
+
+export type MembershipRow = {
+  name: string;
+  label: string;
+  /** 對應 months：1 = 持有、0 = 未持有、null = 該來源這個月沒有資料 */
+  held: (0 | 1 | null)[];
+  /** 該來源最新月份 */
+  lastMonth: string;
+  /** 截至最新月份已連續持有幾個月（最新月份沒持有為 0） */
+  streak: number;
+  /** 累計被選入的月數 */
+  total: number;
+};
+
+export type StockMembership = {
+  months: string[];
+  /** 只列曾經持有過這檔股票的來源 */
+  rows: MembershipRow[];
+  /** 各月有幾個來源持有 */
+  counts: number[];
+};
+
+/** 單一股票在各因子 / 策略名單中的進出紀錄 */
+export function stockMembership(series: LabeledHoldings[], ticker: string): StockMembership {
+  const months = Array.from(new Set(series.flatMap((s) => s.holdings.months))).sort();
+  const rows: MembershipRow[] = [];
+
+  for (const s of series) {
+    const h = s.holdings;
+    const has = new Set(h.months);
+    const held = months.map((m) => (has.has(m) ? ((h.holdings[m] ?? []).includes(ticker) ? 1 : 0) : null));
+    const total = held.filter((v) => v === 1).length;
+    if (!total) continue;
+    const own = sortedMonths(h);
+    const lastMonth = own[own.length - 1];
+    rows.push({ name: s.name, label: s.label, held, lastMonth, streak: streaksAt(h, lastMonth)[ticker] ?? 0, total });
+  }
+
+  const counts = months.map((_, i) => rows.filter((r) => r.held[i] === 1).length);
+  return { months, rows, counts };
+}
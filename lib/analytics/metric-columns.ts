@@ -0,0 +1,106 @@
+/** =========================
+ * 績效表欄位定義
+ * =========================
+ * 各頁面的績效表 / 指標卡片都從這裡挑欄位，顯示名稱與格式保持一致。
+ */
+import type { BenchmarkMetrics } from "./benchmark";
+import type { PerformanceMetrics } from "./metrics";
+import type { SignificanceMetrics } from "./significance";
+
+export type MetricKey = Exclude<keyof PerformanceMetrics, "n"> | keyof BenchmarkMetrics;
+
+/** absolute：只看自身報酬；benchmark：需要選定基準才有值 */
+export type MetricGroup = "absolute" | "benchmark";
+
+export const METRIC_GROUP_LABELS: Record<MetricGroup, string> = {
+  absolute: "絕對績效",
+  benchmark: "相對基準",
+};
+
+export type MetricFormat = "pct" | "ratio" | "days";
+
+/** signed：正綠負紅；loss：一律紅色（回撤、VaR）；plain：灰色 */
+export type MetricTone = "signed" | "loss" | "plain";
+
+export type MetricColumn<K extends string = MetricKey> = {
+  key: K;
+  label: string;
+  format: MetricFormat;
+  tone: MetricTone;
+  group?: MetricGroup;
+  hint?: string;
+};
+
+export const METRIC_COLUMNS: MetricColumn[] = [
+  { key: "periodReturn", label: "區間報酬", format: "pct", tone: "signed" },
+  { key: "cagr", label: "年化報酬", format: "pct", tone: "signed" },
+  { key: "annVol", label: "年化波動", format: "pct", tone: "plain" },
+  { key: "sharpe", label: "夏普比率", format: "ratio", tone: "plain" },
+  { key: "sortino", label: "Sortino", format: "ratio", tone: "plain", hint: "超額報酬 / 下檔波動" },
+  { key: "calmar", label: "Calmar", format: "ratio", tone: "plain", hint: "年化報酬 / |最大回撤|" },
+  { key: "omega", label: "Omega", format: "ratio", tone: "plain", hint: "超額報酬的總利得 / 總損失" },
+  { key: "skew", label: "偏態", format: "ratio", tone: "plain" },
+  { key: "kurtosis", label: "超額峰態", format: "ratio", tone: "plain" },
+  { key: "var95", label: "VaR 95%", format: "pct", tone: "loss", hint: "歷史法單日 VaR" },
+  { key: "cvar95", label: "CVaR 95%", format: "pct", tone: "loss", hint: "最差 5% 交易日的平均報酬" },
+  { key: "hitRate", label: "勝率", format: "pct", tone: "plain", hint: "日報酬 > 0 的比例" },
+  { key: "bestDay", label: "最佳單日", format: "pct", tone: "signed" },
+  { key: "worstDay", label: "最差單日", format: "pct", tone: "signed" },
+  { key: "bestMonth", label: "最佳單月", format: "pct", tone: "signed" },
+  { key: "worstMonth", label: "最差單月", format: "pct", tone: "signed" },
+  { key: "maxdd", label: "最大回撤", format: "pct", tone: "loss" },
+  { key: "maxddDuration", label: "最長回撤期", format: "days", tone: "plain", hint: "交易日數" },
+  { key: "excessCagr", label: "超額年化", format: "pct", tone: "signed", group: "benchmark", hint: "年化報酬 - 基準年化報酬" },
+  { key: "beta", label: "Beta", format: "ratio", tone: "plain", group: "benchmark" },
+  { key: "alpha", label: "Alpha", format: "pct", tone: "signed", group: "benchmark", hint: "Jensen's alpha（年化）" },
+  { key: "trackingError", label: "追蹤誤差", format: "pct", tone: "plain", group: "benchmark", hint: "主動報酬的年化波動" },
+  { key: "infoRatio", label: "資訊比率", format: "ratio", tone: "plain", group: "benchmark", hint: "年化主動報酬 / 追蹤誤差" },
+  { key: "upCapture", label: "上檔捕獲", format: "pct", tone: "plain", group: "benchmark", hint: "基準上漲日的平均報酬比" },
+  { key: "downCapture", label: "下檔捕獲", format: "pct", tone: "plain", group: "benchmark", hint: "基準下跌日的平均報酬比" },
+  { key: "correlation", label: "相關係數", format: "ratio", tone: "plain", group: "benchmark" },
+];
+
+export const DEFAULT_METRIC_KEYS: MetricKey[] = [
+  "periodReturn",
+  "cagr",
+  "annVol",
+  "sharpe",
+  "maxdd",
+  "excessCagr",
+  "beta",
+  "infoRatio",
+];
+
+export type SignificanceKey = keyof SignificanceMetrics;
+
+/** 統計顯著性欄位：計算較重，由各頁的開關整組顯示 / 隱藏，不放進欄位選單 */
+export const SIGNIFICANCE_COLUMNS: MetricColumn<SignificanceKey>[] = [
+  { key: "tStat", label: "t 值", format: "ratio", tone: "signed", hint: "日報酬平均 / 標準誤；|t| > 2 約為 5% 顯著" },
+  { key: "sharpeLow", label: "Sharpe 下界", format: "ratio", tone: "plain", hint: "Bootstrap 95% 信賴區間" },
+  { key: "sharpeHigh", label: "Sharpe 上界", format: "ratio", tone: "plain", hint: "Bootstrap 95% 信賴區間" },
+  { key: "cagrLow", label: "年化報酬下界", format: "pct", tone: "signed", hint: "Bootstrap 95% 信賴區間" },
+  { key: "cagrHigh", label: "年化報酬上界", format: "pct", tone: "signed", hint: "Bootstrap 95% 信賴區間" },
+  { key: "psr", label: "PSR", format: "pct", tone: "plain", hint: "考慮偏態峰態後 Sharpe > 0 的機率" },
+  { key: "dsr", label: "DSR", format: "pct", tone: "plain", hint: "扣除多重比較後 Sharpe 仍顯著的機率" },
+];
+
+export function formatMetric(format: MetricFormat, v: number | null | undefined) {
+  if (v === null || v === undefined || !Number.isFinite(v)) return "-";
+  if (format === "pct") return `${(v * 100).toFixed(2)}%`;
+  if (format === "days") return `${Math.round(v)} 天`;
+  return v.toFixed(2);
+}
+
+/** 只有文字顏色（指標卡片自行決定字重） */
+export function metricColorClass(tone: MetricTone, v: number | null | undefined) {
+  if (v === null || v === undefined || !Number.isFinite(v)) return "text-slate-400";
+  if (tone === "signed") return v >= 0 ? "text-emerald-600" : "text-rose-600";
+  if (tone === "loss") return "text-rose-600";
+  return "text-slate-600";
+}
+
+/** 表格儲存格用：正負值加粗 */
+export function metricToneClass(tone: MetricTone, v: number | null | undefined) {
+  const color = metricColorClass(tone, v);
+  return tone === "signed" && color !== "text-slate-400" ? `${color} font-bold` : color;
+}
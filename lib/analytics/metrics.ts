@@ -0,0 +1,187 @@
+/** =========================
+ * 績效指標 (首頁 / 策略庫 / 因子詳情共用)
+ * =========================
+ * 慣例：
+ * - 輸入為日報酬，年化以 freq (預設 252) 計
+ * - 超額報酬 = 日報酬 - 年化無風險利率 / freq；Sharpe、Sortino、Omega 以超額報酬計算
+ * - 有 rfSeries（data/risk_free.json）時逐日取當時的利率，否則用固定的 rfAnnual
+ * - 分母為 0 或樣本不足時回傳 null，畫面顯示為 "-"
+ */
+import type { RiskFreeResp } from "../types";
+import { compound, maxDrawdownFromReturns, mean, monthlyReturns, stdev } from "./series";
+
+export type MetricOptions = {
+  /** 年化無風險利率（小數，例如 0.015） */
+  rfAnnual?: number;
+  /** 逐日無風險利率；有值時優先於 rfAnnual */
+  rfSeries?: RiskFreeResp | null;
+  freq?: number;
+  /** VaR / CVaR 信賴水準 */
+  varLevel?: number;
+};
+
+export type PerformanceMetrics = {
+  n: number;
+  periodReturn: number;
+  cagr: number;
+  annVol: number;
+  sharpe: number | null;
+  sortino: number | null;
+  calmar: number | null;
+  omega: number | null;
+  skew: number | null;
+  kurtosis: number | null;
+  var95: number | null;
+  cvar95: number | null;
+  hitRate: number | null;
+  bestDay: number | null;
+  worstDay: number | null;
+  bestMonth: number | null;
+  worstMonth: number | null;
+  maxdd: number;
+  /** 最長水下期間（交易日數，從前高到收復或資料結束） */
+  maxddDuration: number;
+};
+
+export const EMPTY_METRICS: PerformanceMetrics = {
+  n: 0,
+  periodReturn: 0,
+  cagr: 0,
+  annVol: 0,
+  sharpe: null,
+  sortino: null,
+  calmar: null,
+  omega: null,
+  skew: null,
+  kurtosis: null,
+  var95: null,
+  cvar95: null,
+  hitRate: null,
+  bestDay: null,
+  worstDay: null,
+  bestMonth: null,
+  worstMonth: null,
+  maxdd: 0,
+  maxddDuration: 0,
+};
+
+/** 每個交易日的日無風險利率；利率序列開始前沿用第一筆 */
+export function riskFreeDaily(dates: string[], opts: MetricOptions = {}) {
+  const { rfAnnual = 0, freq = 252, rfSeries } = opts;
+  if (!rfSeries?.dates.length) return dates.map(() => rfAnnual / freq);
+
+  const out: number[] = [];
+  let j = 0;
+  for (const d of dates) {
+    while (j + 1 < rfSeries.dates.length && rfSeries.dates[j + 1] <= d) j++;
+    out.push(rfSeries.rate[j] / freq);
+  }
+  return out;
+}
+
+/** 最長水下期間（交易日數） */
+export function longestDrawdownDuration(ret: number[]) {
+  let nav = 1;
+  let peak = 1;
+  let cur = 0;
+  let longest = 0;
+  for (const r of ret) {
+    nav *= 1 + r;
+    if (nav >= peak) {
+      peak = nav;
+      cur = 0;
+    } else {
+      cur++;
+      if (cur > longest) longest = cur;
+    }
+  }
+  return longest;
+}
+
+/** 歷史法 VaR / CVaR；回傳值為報酬（通常為負數） */
+export function historicalVaR(ret: number[], level = 0.95) {
+  if (!ret.length) return { var: null, cvar: null };
+  const sorted = [...ret].sort((a, b) => a - b);
+  const idx = Math.max(0, Math.floor((1 - level) * sorted.length) - 1);
+  const v = sorted[idx];
+  const tail = sorted.slice(0, idx + 1);
+  return { var: v, cvar: mean(tail) };
+}
+
+/** 偏態與超額峰態（樣本動差） */
+export function moments(xs: number[]) {
+  const n = xs.length;
+  if (n < 3) return { skew: null, kurtosis: null };
+  const m = mean(xs);
+  let m2 = 0;
+  let m3 = 0;
+  let m4 = 0;
+  for (const x of xs) {
+    const d = x - m;
+    m2 += d * d;
+    m3 += d * d * d;
+    m4 += d * d * d * d;
+  }
+  m2 /= n;
+  m3 /= n;
+  m4 /= n;
+  if (m2 === 0) return { skew: null, kurtosis: null };
+  return { skew: m3 / Math.pow(m2, 1.5), kurtosis: m4 / (m2 * m2) - 3 };
+}
+
+export function calcMetrics(dates: string[], ret: number[], opts: MetricOptions = {}): PerformanceMetrics {
+  const { freq = 252, varLevel = 0.95 } = opts;
+  const n = ret.length;
+  if (!n) return { ...EMPTY_METRICS };
+
+  const periodReturn = compound(ret);
+  const cagr = Math.pow(1 + periodReturn, freq / n) - 1;
+  const annVol = stdev(ret) * Math.sqrt(freq);
+
+  const rfDaily = riskFreeDaily(dates.slice(0, n), opts);
+  const ex = ret.map((r, i) => r - (rfDaily[i] ?? 0));
+  const exMean = mean(ex);
+  const exVol = stdev(ex) * Math.sqrt(freq);
+  const sharpe = exVol === 0 ? null : (exMean * freq) / exVol;
+
+  const downside = Math.sqrt(ex.reduce((a, x) => a + Math.min(x, 0) ** 2, 0) / n) * Math.sqrt(freq);
+  const sortino = downside === 0 ? null : (exMean * freq) / downside;
+
+  let gain = 0;
+  let loss = 0;
+  for (const x of ex) {
+    if (x > 0) gain += x;
+    else loss -= x;
+  }
+  const omega = loss === 0 ? null : gain / loss;
+
+  const maxdd = maxDrawdownFromReturns(ret);
+  const calmar = maxdd === 0 ? null : cagr / Math.abs(maxdd);
+
+  const { skew, kurtosis } = moments(ret);
+  const tail = historicalVaR(ret, varLevel);
+
+  const months = monthlyReturns(dates.slice(0, n), ret).map(([, r]) => r);
+
+  return {
+    n,
+    periodReturn,
+    cagr,
+    annVol,
+    sharpe,
+    sortino,
+    calmar,
+    omega,
+    skew,
+    kurtosis,
+    var95: tail.var,
+    cvar95: tail.cvar,
+    hitRate: ret.filter((r) => r > 0).length / n,
+    bestDay: ret.reduce((a, b) => Math.max(a, b), -Infinity),
+    worstDay: ret.reduce((a, b) => Math.min(a, b), Infinity),
+    bestMonth: months.length ? months.reduce((a, b) => Math.max(a, b), -Infinity) : null,
+    worstMonth: months.length ? months.reduce((a, b) => Math.min(a, b), Infinity) : null,
+    maxdd,
+    maxddDuration: longestDrawdownDuration(ret),
+  };
+}
@@ -0,0 +1,244 @@
+/** =========================
+ * 因子配置最佳化
+ * =========================
+ * 全部在瀏覽器端計算：
+ * - 以共同交易日的日報酬估計平均報酬與共變異數（回看 lookback 日）
+ * - fixed：只用前 lookback 日估一次權重；walkForward：每月初以過去 lookback 日重新估計
+ * - 兩種模式都從第 lookback + 1 日開始樣本外回測，每月初再平衡回目標權重，月中權重隨報酬漂移
+ * - 權重上下限以歐氏投影處理（權重和恆為 1、只做多）
+ */
+import type { RiskFreeResp } from "../types";
+import { riskFreeDaily } from "./metrics";
+import type { LabeledReturns } from "./series";
+import { mean, monthKey } from "./series";
+
+export type OptimizerMethod = "equal" | "inverseVol" | "riskParity" | "minVariance" | "maxSharpe";
+export type EstimationMode = "fixed" | "walkForward";
+
+export const OPTIMIZER_METHOD_LABELS: Record<OptimizerMethod, string> = {
+  equal: "等權重",
+  inverseVol: "波動倒數",
+  riskParity: "風險平價",
+  minVariance: "最小變異",
+  maxSharpe: "最大 Sharpe",
+};
+
+export const ESTIMATION_MODE_LABELS: Record<EstimationMode, string> = {
+  fixed: "固定估計期",
+  walkForward: "滾動重估 (每月)",
+};
+
+export type OptimizerOptions = {
+  method: OptimizerMethod;
+  mode: EstimationMode;
+  lookback: number;
+  /** 單一因子權重下限 / 上限（0 ~ 1） */
+  minWeight: number;
+  maxWeight: number;
+  rfAnnual?: number;
+  rfSeries?: RiskFreeResp | null;
+};
+
+export type OptimizerResult = {
+  names: string[];
+  dates: string[];
+  ret: number[];
+  /** 同期間、同再平衡頻率的等權重基準 */
+  equalRet: number[];
+  /** 每次再平衡時的目標權重 */
+  weights: { date: string; w: number[] }[];
+};
+
+// === 線性代數小工具 ===
+function covMatrix(cols: number[][]) {
+  const k = cols.length;
+  const n = cols[0]?.length ?? 0;
+  const mu = cols.map((c) => c.reduce((a, b) => a + b, 0) / Math.max(n, 1));
+  const cov = Array.from({ length: k }, () => Array(k).fill(0) as number[]);
+  for (let i = 0; i < k; i++) {
+    for (let j = i; j < k; j++) {
+      let s = 0;
+      for (let t = 0; t < n; t++) s += (cols[i][t] - mu[i]) * (cols[j][t] - mu[j]);
+      cov[i][j] = cov[j][i] = s / Math.max(n - 1, 1);
+    }
+  }
+  return { mu, cov };
+}
+
+function matVec(m: number[][], v: number[]) {
+  return m.map((row) => row.reduce((a, x, j) => a + x * v[j], 0));
+}
+
+function dot(a: number[], b: number[]) {
+  return a.reduce((s, x, i) => s + x * b[i], 0);
+}
+
+/** 投影到 { Σw = 1, lo ≤ w ≤ hi }；上下限無解時退回等權重 */
+export function projectToBounds(v: number[], lo: number, hi: number) {
+  const k = v.length;
+  if (lo * k > 1 + 1e-9 || hi * k < 1 - 1e-9) return v.map(() => 1 / k);
+
+  const clip = (x: number) => Math.min(hi, Math.max(lo, x));
+  const sumAt = (lam: number) => v.reduce((a, x) => a + clip(x - lam), 0);
+  let a = Math.min(...v) - hi;
+  let b = Math.max(...v) - lo;
+  for (let it = 0; it < 100; it++) {
+    const m = (a + b) / 2;
+    if (sumAt(m) > 1) a = m;
+    else b = m;
+  }
+  return v.map((x) => clip(x - (a + b) / 2));
+}
+
+// === 各方法 ===
+function inverseVol(cov: number[][]) {
+  return cov.map((row, i) => 1 / Math.sqrt(Math.max(row[i], 1e-12)));
+}
+
+function riskParity(cov: number[][], lo: number, hi: number) {
+  const k = cov.length;
+  let w = projectToBounds(inverseVol(cov), lo, hi);
+  for (let it = 0; it < 500; it++) {
+    const mrc = matVec(cov, w);
+    const rc = w.map((x, i) => x * mrc[i]);
+    const avg = rc.reduce((a, b) => a + b, 0) / k;
+    const next = projectToBounds(
+      w.map((x, i) => x * Math.sqrt(avg / Math.max(rc[i], 1e-16))),
+      lo,
+      hi
+    );
+    const diff = next.reduce((a, x, i) => a + Math.abs(x - w[i]), 0);
+    w = next;
+    if (diff < 1e-10) break;
+  }
+  return w;
+}
+
+function minVariance(cov: number[][], lo: number, hi: number) {
+  const k = cov.length;
+  const trace = cov.reduce((a, row, i) => a + row[i], 0);
+  const step = 1 / Math.max(2 * trace, 1e-12);
+  let w = projectToBounds(Array(k).fill(1 / k), lo, hi);
+  for (let it = 0; it < 2000; it++) {
+    const g = matVec(cov, w).map((x) => 2 * x);
+    const next = projectToBounds(
+      w.map((x, i) => x - step * g[i]),
+      lo,
+      hi
+    );
+    const diff = next.reduce((a, x, i) => a + Math.abs(x - w[i]), 0);
+    w = next;
+    if (diff < 1e-12) break;
+  }
+  return w;
+}
+
+function maxSharpe(mu: number[], cov: number[][], rfDaily: number, lo: number, hi: number) {
+  const k = mu.length;
+  const ex = mu.map((m) => m - rfDaily);
+  // 沒有任何正超額報酬時，最大 Sharpe 沒有意義，退回最小變異
+  if (ex.every((x) => x <= 0)) return minVariance(cov, lo, hi);
+
+  let w = projectToBounds(Array(k).fill(1 / k), lo, hi);
+  let step = 0.05;
+  const sharpe = (v: number[]) => dot(ex, v) / Math.sqrt(Math.max(dot(v, matVec(cov, v)), 1e-16));
+  let best = sharpe(w);
+  for (let it = 0; it < 2000 && step > 1e-6; it++) {
+    const sw = matVec(cov, w);
+    const vol = Math.sqrt(Math.max(dot(w, sw), 1e-16));
+    const r = dot(ex, w);
+    const g = ex.map((e, i) => e / vol - (r * sw[i]) / vol ** 3);
+    const gn = Math.sqrt(dot(g, g)) || 1;
+    const next = projectToBounds(
+      w.map((x, i) => x + (step * g[i]) / gn),
+      lo,
+      hi
+    );
+    const s = sharpe(next);
+    if (s > best) {
+      w = next;
+      best = s;
+    } else {
+      step /= 2;
+    }
+  }
+  return w;
+}
+
+/** rfDaily：估計視窗內的平均日無風險利率（只有最大 Sharpe 用到） */
+export function estimateWeights(cols: number[][], opts: OptimizerOptions, rfDaily = (opts.rfAnnual ?? 0) / 252) {
+  const k = cols.length;
+  const { minWeight: lo, maxWeight: hi } = opts;
+  if (opts.method === "equal") return projectToBounds(Array(k).fill(1 / k), lo, hi);
+
+  const { mu, cov } = covMatrix(cols);
+  if (opts.method === "inverseVol") {
+    const v = inverseVol(cov);
+    const s = v.reduce((a, b) => a + b, 0);
+    return projectToBounds(
+      v.map((x) => x / s),
+      lo,
+      hi
+    );
+  }
+  if (opts.method === "riskParity") return riskParity(cov, lo, hi);
+  if (opts.method === "minVariance") return minVariance(cov, lo, hi);
+  return maxSharpe(mu, cov, rfDaily, lo, hi);
+}
+
+/** 共同交易日對齊後的報酬矩陣 (cols[i][t]) */
+function alignAll(series: LabeledReturns[]) {
+  const maps = series.map((s) => {
+    const m = new Map<string, number>();
+    s.dates.forEach((d, i) => m.set(d, s.ret[i]));
+    return m;
+  });
+  const dates = (series[0]?.dates ?? []).filter((d) => maps.every((m) => m.has(d)));
+  return { dates, cols: maps.map((m) => dates.map((d) => m.get(d)!)) };
+}
+
+export function runOptimizer(series: LabeledReturns[], opts: OptimizerOptions): OptimizerResult | null {
+  const { dates, cols } = alignAll(series);
+  const k = cols.length;
+  if (k < 2 || dates.length <= opts.lookback + 1) return null;
+
+  const rf = riskFreeDaily(dates, opts);
+  const equalW = Array(k).fill(1 / k);
+  const out: OptimizerResult = { names: series.map((s) => s.name), dates: [], ret: [], equalRet: [], weights: [] };
+
+  let target = equalW;
+  let pos = equalW;
+  let eqPos = equalW;
+  let prevMonth = "";
+
+  for (let t = opts.lookback; t < dates.length; t++) {
+    const month = monthKey(dates[t]);
+    if (month !== prevMonth) {
+      if (opts.mode === "walkForward" || !out.weights.length) {
+        const window = opts.mode === "walkForward" ? t - opts.lookback : 0;
+        target = estimateWeights(
+          cols.map((c) => c.slice(window, window + opts.lookback)),
+          opts,
+          mean(rf.slice(window, window + opts.lookback))
+        );
+        out.weights.push({ date: dates[t], w: target });
+      }
+      const total = pos.reduce((a, b) => a + b, 0);
+      const eqTotal = eqPos.reduce((a, b) => a + b, 0);
+      pos = target.map((w) => w * total);
+      eqPos = equalW.map((w) => w * eqTotal);
+      prevMonth = month;
+    }
+
+    const before = pos.reduce((a, b) => a + b, 0);
+    const eqBefore = eqPos.reduce((a, b) => a + b, 0);
+    pos = pos.map((v, i) => v * (1 + cols[i][t]));
+    eqPos = eqPos.map((v, i) => v * (1 + cols[i][t]));
+
+    out.dates.push(dates[t]);
+    out.ret.push(pos.reduce((a, b) => a + b, 0) / before - 1);
+    out.equalRet.push(eqPos.reduce((a, b) => a + b, 0) / eqBefore - 1);
+  }
+
+  return out;
+}
@@ -0,0 +1,80 @@
+/** =========================
+ * 持股重疊度
+ * =========================
+ * - 重疊檔數 = |A ∩ B|；Jaccard = |A ∩ B| / |A ∪ B|（0 ~ 1，1 代表名單完全相同）
+ * - 權重重疊 = Σ min(w_A, w_B)（0 ~ 1）；沒有權重的名單以等權重計
+ * - 任一邊該月沒有持股時，Jaccard 與權重重疊為 null（無法比較，不當成 0）
+ * - 時間序列只取兩邊都有持股的月份
+ */
+import type { HoldingsResp } from "../types";
+import { monthWeights, type Weights } from "./turnover";
+
+export type LabeledHoldings = {
+  name: string;
+  label: string;
+  holdings: HoldingsResp;
+};
+
+export type OverlapMatrix = {
+  counts: number[][];
+  jaccard: (number | null)[][];
+  weighted: (number | null)[][];
+  /** 每個名單當月的檔數 */
+  sizes: number[];
+};
+
+export type OverlapSeries = {
+  months: string[];
+  counts: number[];
+  jaccard: number[];
+  weighted: number[];
+};
+
+function listAt(h: HoldingsResp, month: string) {
+  return new Set(h.holdings[month] ?? []);
+}
+
+export function overlap(a: Set<string>, b: Set<string>) {
+  let count = 0;
+  for (const t of a) if (b.has(t)) count++;
+  const union = a.size + b.size - count;
+  return { count, jaccard: a.size && b.size ? count / union : null };
+}
+
+export function weightOverlap(a: Weights, b: Weights) {
+  let s = 0;
+  for (const [t, v] of Object.entries(a)) s += Math.min(v, b[t] ?? 0);
+  return s;
+}
+
+export function overlapMatrix(series: LabeledHoldings[], month: string): OverlapMatrix {
+  const sets = series.map((s) => listAt(s.holdings, month));
+  const ws = series.map((s) => monthWeights(s.holdings, month));
+  const counts = sets.map(() => sets.map(() => 0));
+  const jaccard = sets.map(() => sets.map((): number | null => null));
+  const weighted = sets.map(() => sets.map((): number | null => null));
+
+  for (let i = 0; i < sets.length; i++) {
+    for (let j = i; j < sets.length; j++) {
+      const o = overlap(sets[i], sets[j]);
+      counts[i][j] = counts[j][i] = o.count;
+      jaccard[i][j] = jaccard[j][i] = o.jaccard;
+      weighted[i][j] = weighted[j][i] = o.jaccard === null ? null : weightOverlap(ws[i], ws[j]);
+    }
+  }
+  return { counts, jaccard, weighted, sizes: sets.map((s) => s.size) };
+}
+
+/** 兩個名單逐月的重疊檔數、Jaccard 與權重重疊 */
+export function overlapSeries(a: HoldingsResp, b: HoldingsResp): OverlapSeries {
+  const months = a.months.filter((m) => b.holdings[m]?.length && a.holdings[m]?.length).sort();
+  const out: OverlapSeries = { months: [], counts: [], jaccard: [], weighted: [] };
+  for (const m of months) {
+    const o = overlap(listAt(a, m), listAt(b, m));
+    out.months.push(m);
+    out.counts.push(o.count);
+    out.jaccard.push(o.jaccard ?? 0);
+    out.weighted.push(weightOverlap(monthWeights(a, m), monthWeights(b, m)));
+  }
+  return out;
+}
@@ -0,0 +1,131 @@
+/** =========================
+ * 多因子組合
+ * =========================
+ * 以各因子的日報酬模擬固定權重組合：
+ * - 只使用所有成分都有資料的交易日
+ * - 再平衡日（daily 每日、monthly / quarterly 為新期間的第一個交易日）於當日開盤前把部位調回目標權重
+ * - none 為買進持有：只在第一天依權重配置
+ */
+import type { ReturnsResp } from "../types";
+import { monthKey } from "./series";
+
+export type Rebalance = "daily" | "monthly" | "quarterly" | "none";
+
+export const REBALANCE_LABELS: Record<Rebalance, string> = {
+  daily: "每日",
+  monthly: "每月",
+  quarterly: "每季",
+  none: "不再平衡",
+};
+
+export type PortfolioSpec = {
+  id: string;
+  name: string;
+  /** 因子 → 權重（不必加總為 1，計算時會正規化） */
+  weights: Record<string, number>;
+  rebalance: Rebalance;
+};
+
+export function normalizeWeights(weights: Record<string, number>) {
+  const entries = Object.entries(weights).filter(([, w]) => Number.isFinite(w) && w > 0);
+  const total = entries.reduce((a, [, w]) => a + w, 0);
+  return total > 0 ? Object.fromEntries(entries.map(([k, w]) => [k, w / total])) : {};
+}
+
+function periodKey(date: string, rebalance: Rebalance) {
+  if (rebalance === "monthly") return monthKey(date);
+  if (rebalance === "quarterly") return `${date.slice(0, 4)}Q${Math.floor((Number(date.slice(5, 7)) - 1) / 3)}`;
+  return "";
+}
+
+/** 成分報酬 (已依區間裁剪) → 組合日報酬 */
+export function blendReturns(
+  components: Record<string, ReturnsResp>,
+  spec: Pick<PortfolioSpec, "name" | "weights" | "rebalance">
+): ReturnsResp {
+  const w = normalizeWeights(spec.weights);
+  const names = Object.keys(w).filter((n) => components[n]);
+  if (!names.length) return { name: spec.name, dates: [], ret: [] };
+
+  const maps = names.map((n) => {
+    const m = new Map<string, number>();
+    components[n].dates.forEach((d, i) => m.set(d, components[n].ret[i]));
+    return m;
+  });
+  const dates = components[names[0]].dates.filter((d) => maps.every((m) => m.has(d)));
+
+  // 缺資料的成分不計，剩下的權重重新正規化
+  const wTotal = names.reduce((a, n) => a + w[n], 0);
+  const target = names.map((n) => w[n] / wTotal);
+
+  let pos = [...target];
+  let prevKey = "";
+  const ret: number[] = [];
+
+  for (let t = 0; t < dates.length; t++) {
+    const key = periodKey(dates[t], spec.rebalance);
+    const total = pos.reduce((a, b) => a + b, 0);
+    if (spec.rebalance === "daily" || (spec.rebalance !== "none" && t > 0 && key !== prevKey)) {
+      pos = target.map((x) => x * total);
+    }
+    prevKey = key;
+
+    const next = pos.map((v, i) => v * (1 + maps[i].get(dates[t])!));
+    const nextTotal = next.reduce((a, b) => a + b, 0);
+    ret.push(total > 0 ? nextTotal / total - 1 : 0);
+    pos = next;
+  }
+
+  return { name: spec.name, dates, ret };
+}
+
+/** 分享連結用：組合 ↔ URL 參數 */
+export function encodePortfolio(spec: PortfolioSpec) {
+  return JSON.stringify({ n: spec.name, w: spec.weights, r: spec.rebalance });
+}
+
+/** 名稱、權重、再平衡頻率的格式檢查（URL 參數與 localStorage 共用）；格式不對回傳 null */
+function parsePortfolioFields(name: unknown, w: unknown, r: unknown): Omit<PortfolioSpec, "id"> | null {
+  if (typeof name !== "string" || typeof r !== "string" || !Object.hasOwn(REBALANCE_LABELS, r)) return null;
+  // 權重必須是 { 名稱: 數字 } 物件；陣列的 index 會被當成名稱
+  if (!w || typeof w !== "object" || Array.isArray(w)) return null;
+  const weights: Record<string, number> = {};
+  for (const [k, v] of Object.entries(w)) if (typeof v === "number" && v > 0) weights[k] = v;
+  if (!Object.keys(weights).length) return null;
+  return { name, weights, rebalance: r as Rebalance };
+}
+
+export function decodePortfolio(raw: string): PortfolioSpec | null {
+  try {
+    const o = JSON.parse(raw);
+    if (!o || typeof o !== "object") return null;
+    const fields = parsePortfolioFields(o.n, o.w, o.r);
+    return fields && { id: newPortfolioId(), ...fields };
+  } catch {
+    return null;
+  }
+}
+
+/** localStorage 存的組合清單；不是陣列回傳 null，個別格式不對的組合略過 */
+export function validatePortfolios(raw: unknown): PortfolioSpec[] | null {
+  if (!Array.isArray(raw)) return null;
+  const out: PortfolioSpec[] = [];
+  for (const o of raw) {
+    if (!o || typeof o !== "object" || typeof o.id !== "string") continue;
+    const fields = parsePortfolioFields(o.name, o.weights, o.rebalance);
+    if (fields) out.push({ id: o.id, ...fields });
+  }
+  return out;
+}
+
+export function newPortfolioId() {
+  return `p${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** 顯示用：「低 PE 40% + 動能 30% + ...」 */
+export function describeWeights(weights: Record<string, number>, getLabel: (name: string) => string = (n) => n) {
+  return Object.entries(normalizeWeights(weights))
+    .sort((a, b) => b[1] - a[1])
+    .map(([k, w]) => `${getLabel(k)} ${(w * 100).toFixed(0)}%`)
+    .join(" + ");
+}
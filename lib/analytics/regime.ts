@@ -0,0 +1,102 @@
+/** =========================
+ * Global Wave 景氣循環區間
+ * =========================
+ * trough → 下一個 peak 為擴張期，peak → 下一個 trough 為收縮期；
+ * 第一個事件之前不歸類，最後一個事件之後視為目前仍在進行中的區間。
+ * 事件日期可以是 YYYY-MM 或 YYYY-MM-DD，以字串比較（區間含起點、不含終點）。
+ */
+import type { GlobalWaveResp } from "../types";
+import { compound, mean, parseDate, stdev } from "./series";
+import { riskFreeDaily, type MetricOptions } from "./metrics";
+
+export type Regime = "expansion" | "contraction";
+
+export const REGIME_LABELS: Record<Regime, string> = {
+  expansion: "擴張期",
+  contraction: "收縮期",
+};
+
+export type RegimePeriod = {
+  regime: Regime;
+  start: string;
+  /** 進行中為 null */
+  end: string | null;
+};
+
+type WaveEvent = NonNullable<GlobalWaveResp["events"]>[number];
+
+export function regimePeriods(events: WaveEvent[]): RegimePeriod[] {
+  const sorted = [...events].sort((a, b) => a.date.localeCompare(b.date));
+  const out: RegimePeriod[] = [];
+  for (let i = 0; i < sorted.length; i++) {
+    const e = sorted[i];
+    const regime: Regime = e.type === "trough" ? "expansion" : "contraction";
+    // 連續兩個同類事件時延續同一區間
+    if (out.length && out[out.length - 1].regime === regime) continue;
+    if (out.length) out[out.length - 1].end = e.date;
+    out.push({ regime, start: e.date, end: null });
+  }
+  return out;
+}
+
+export function regimeOf(date: string, periods: RegimePeriod[]): Regime | null {
+  for (const p of periods) {
+    if (date >= p.start && (p.end === null || date < p.end)) return p.regime;
+  }
+  return null;
+}
+
+export type RegimeStats = {
+  n: number;
+  annReturn: number | null;
+  annVol: number | null;
+  sharpe: number | null;
+  hitRate: number | null;
+};
+
+export function regimePerformance(
+  dates: string[],
+  ret: number[],
+  periods: RegimePeriod[],
+  opts: MetricOptions = {}
+): Record<Regime, RegimeStats> {
+  const { freq = 252 } = opts;
+  const rf = riskFreeDaily(dates, opts);
+  const buckets: Record<Regime, { xs: number[]; ex: number[] }> = {
+    expansion: { xs: [], ex: [] },
+    contraction: { xs: [], ex: [] },
+  };
+  for (let i = 0; i < dates.length; i++) {
+    const r = regimeOf(dates[i], periods);
+    if (r) {
+      buckets[r].xs.push(ret[i]);
+      buckets[r].ex.push(ret[i] - rf[i]);
+    }
+  }
+
+  const stats = ({ xs, ex }: { xs: number[]; ex: number[] }): RegimeStats => {
+    const n = xs.length;
+    if (n < 2) return { n, annReturn: null, annVol: null, sharpe: null, hitRate: null };
+    const vol = stdev(xs) * Math.sqrt(freq);
+    const exVol = stdev(ex) * Math.sqrt(freq);
+    return {
+      n,
+      annReturn: Math.pow(1 + compound(xs), freq / n) - 1,
+      annVol: vol,
+      sharpe: exVol === 0 ? null : (mean(ex) * freq) / exVol,
+      hitRate: xs.filter((r) => r > 0).length / n,
+    };
+  };
+
+  return { expansion: stats(buckets.expansion), contraction: stats(buckets.contraction) };
+}
+
+/** 目前所在區間與已持續的天數（以 asof 為準） */
+export function currentRegime(periods: RegimePeriod[], asof: string) {
+  const last = periods[periods.length - 1];
+  if (!last) return null;
+  const s = parseDate(last.start);
+  const e = parseDate(asof);
+  const days = s && e ? Math.max(0, Math.round((e.getTime() - s.getTime()) / 86400000)) : null;
+  return { regime: last.regime, since: last.start, days };
+}
@@ -0,0 +1,74 @@
+/** =========================
+ * 滾動視窗指標
+ * =========================
+ * 每個點代表「截至當日、往回 window 個交易日」的統計值；前 window - 1 天不輸出。
+ * Sharpe / 波動為年化，報酬為視窗內的累積報酬。
+ */
+import type { ReturnsResp } from "../types";
+import { alignReturns } from "./benchmark";
+import { riskFreeDaily, type MetricOptions } from "./metrics";
+import { compound, correlation, covariance, maxDrawdownFromReturns, mean, stdev } from "./series";
+
+export const ROLLING_WINDOWS = [63, 126, 252];
+
+export type RollingSeries = {
+  dates: string[];
+  values: (number | null)[];
+};
+
+/** 對每個長度為 window 的區段套用 fn */
+export function rolling(
+  dates: string[],
+  ret: number[],
+  window: number,
+  fn: (slice: number[], start: number, end: number) => number | null
+): RollingSeries {
+  const out: RollingSeries = { dates: [], values: [] };
+  for (let end = window; end <= ret.length; end++) {
+    out.dates.push(dates[end - 1]);
+    out.values.push(fn(ret.slice(end - window, end), end - window, end));
+  }
+  return out;
+}
+
+export type RollingMetrics = {
+  sharpe: RollingSeries;
+  vol: RollingSeries;
+  ret: RollingSeries;
+  maxdd: RollingSeries;
+  /** 沒有基準時為 null */
+  beta: RollingSeries | null;
+  correlation: RollingSeries | null;
+};
+
+export function rollingMetrics(
+  dates: string[],
+  ret: number[],
+  window: number,
+  bench: ReturnsResp | null,
+  opts: MetricOptions = {}
+): RollingMetrics {
+  const { freq = 252 } = opts;
+  const rfDaily = riskFreeDaily(dates, opts);
+
+  const sharpe = rolling(dates, ret, window, (xs, start) => {
+    const ex = xs.map((r, i) => r - rfDaily[start + i]);
+    const vol = stdev(ex);
+    return vol === 0 ? null : (mean(ex) / vol) * Math.sqrt(freq);
+  });
+  const vol = rolling(dates, ret, window, (xs) => stdev(xs) * Math.sqrt(freq));
+  const period = rolling(dates, ret, window, (xs) => compound(xs));
+  const maxdd = rolling(dates, ret, window, (xs) => maxDrawdownFromReturns(xs));
+
+  if (!bench) return { sharpe, vol, ret: period, maxdd, beta: null, correlation: null };
+
+  const a = alignReturns(dates, ret, bench);
+  const beta = rolling(a.dates, a.x, window, (xs, start, end) => {
+    const ys = a.y.slice(start, end);
+    const v = stdev(ys) ** 2;
+    return v === 0 ? null : covariance(xs, ys) / v;
+  });
+  const corr = rolling(a.dates, a.x, window, (xs, start, end) => correlation(xs, a.y.slice(start, end)));
+
+  return { sharpe, vol, ret: period, maxdd, beta, correlation: corr };
+}
@@ -0,0 +1,107 @@
+/** =========================
+ * 產業配置
+ * =========================
+ * - 產業權重 = 該產業持股權重合計；檔案沒有權重的月份以等權重計（即檔數比例）
+ * - stock_sectors.json 找不到的代號歸為「未分類」
+ * - 產業偏離 = 名單權重 - 基準籃子權重；基準取同月，沒有同月時用之前最近的月份
+ */
+import type { HoldingsResp, StockSectorsResp } from "../types";
+import { mean } from "./series";
+import { monthWeights, type Weights } from "./turnover";
+
+export const UNCLASSIFIED = "未分類";
+export const DEFAULT_SECTOR_BENCHMARK = "Top200";
+export const OTHER_SECTORS = "其他";
+
+export type SectorComposition = {
+  months: string[];
+  /** 依平均權重由大到小 */
+  sectors: string[];
+  weights: Record<string, number[]>;
+};
+
+export type SectorTiltRow = {
+  sector: string;
+  weight: number;
+  bench: number;
+  tilt: number;
+};
+
+export function sectorOf(ticker: string, sectors: StockSectorsResp) {
+  return sectors[ticker] ?? UNCLASSIFIED;
+}
+
+/** 名單中出現過的產業（依檔數由多到少） */
+export function sectorsIn(tickers: string[], sectors: StockSectorsResp) {
+  const n = new Map<string, number>();
+  for (const t of tickers) {
+    const s = sectorOf(t, sectors);
+    n.set(s, (n.get(s) ?? 0) + 1);
+  }
+  return Array.from(n.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .map(([s]) => s);
+}
+
+export function sectorWeights(weights: Weights, sectors: StockSectorsResp): Record<string, number> {
+  const w: Record<string, number> = {};
+  for (const [t, v] of Object.entries(weights)) {
+    const s = sectorOf(t, sectors);
+    w[s] = (w[s] ?? 0) + v;
+  }
+  return w;
+}
+
+/**
+ * 逐月產業權重；maxSectors 之外的產業併入「其他」
+ */
+export function sectorComposition(h: HoldingsResp, sectors: StockSectorsResp, maxSectors = 10): SectorComposition {
+  const months = [...h.months].filter((m) => h.holdings[m]?.length).sort();
+  const perMonth = months.map((m) => sectorWeights(monthWeights(h, m), sectors));
+
+  const all = Array.from(new Set(perMonth.flatMap((w) => Object.keys(w))));
+  const avg = (s: string) => mean(perMonth.map((w) => w[s] ?? 0));
+  const ranked = all.sort((a, b) => avg(b) - avg(a));
+  const keep = ranked.length > maxSectors ? ranked.slice(0, maxSectors - 1) : ranked;
+  const keepSet = new Set(keep);
+
+  const weights: Record<string, number[]> = {};
+  for (const s of keep) weights[s] = perMonth.map((w) => w[s] ?? 0);
+  if (keep.length < ranked.length) {
+    weights[OTHER_SECTORS] = perMonth.map((w) =>
+      Object.entries(w).reduce((acc, [s, v]) => (keepSet.has(s) ? acc : acc + v), 0)
+    );
+  }
+  return { months, sectors: Object.keys(weights), weights };
+}
+
+/** 基準籃子在 month 當月（或之前最近一個月）的權重 */
+function benchmarkList(bench: HoldingsResp, month: string) {
+  const prior = bench.months.filter((m) => m <= month && bench.holdings[m]?.length).sort();
+  const m = prior[prior.length - 1];
+  return m ? { month: m, weights: monthWeights(bench, m) } : null;
+}
+
+/** 單月產業偏離；依偏離由正到負排序 */
+export function sectorTilt(h: HoldingsResp, bench: HoldingsResp, sectors: StockSectorsResp, month: string) {
+  const base = benchmarkList(bench, month);
+  if (!base || !h.holdings[month]?.length) return null;
+
+  const w = sectorWeights(monthWeights(h, month), sectors);
+  const b = sectorWeights(base.weights, sectors);
+  const rows: SectorTiltRow[] = Array.from(new Set([...Object.keys(w), ...Object.keys(b)])).map((sector) => ({
+    sector,
+    weight: w[sector] ?? 0,
+    bench: b[sector] ?? 0,
+    tilt: (w[sector] ?? 0) - (b[sector] ?? 0),
+  }));
+  rows.sort((x, y) => y.tilt - x.tilt);
+  return { benchMonth: base.month, rows };
+}
+
+/** 依產業篩選名單；sector 為空或名單中沒有該產業時回傳全部（與 SectorFilter 顯示一致） */
+export function filterBySector(tickers: string[], sectors: StockSectorsResp, sector: string) {
+  if (!sector) return tickers;
+  const out = tickers.filter((t) => sectorOf(t, sectors) === sector);
+  return out.length ? out : tickers;
+}
@@ -0,0 +1,116 @@
+/** =========================
+ * 報酬序列的基本工具
+ * ========================= */
+import type { ReturnsResp } from "../types";
+
+export function parseDate(s: string) {
+  const d = new Date(s);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/** 日報酬 → 累積淨值（起點 1） */
+export function toCum(retArr: number[]) {
+  let v = 1;
+  return retArr.map((r) => (v *= 1 + r));
+}
+
+/** 連乘報酬 */
+export function compound(ret: number[]) {
+  let nav = 1;
+  for (const r of ret) nav *= 1 + r;
+  return nav - 1;
+}
+
+export function maxDrawdownFromReturns(ret: number[]) {
+  let peak = 1;
+  let nav = 1;
+  let maxdd = 0;
+  for (const r of ret) {
+    nav *= 1 + r;
+    if (nav > peak) peak = nav;
+    const dd = nav / peak - 1;
+    if (dd < maxdd) maxdd = dd;
+  }
+  return maxdd;
+}
+
+/** 只保留 [start, end] 區間內的資料 */
+export function clipReturns(d: ReturnsResp, start: string, end: string): ReturnsResp {
+  const s = parseDate(start);
+  const e = parseDate(end);
+  if (!s || !e) return d;
+
+  const dates: string[] = [];
+  const ret: number[] = [];
+  for (let i = 0; i < d.dates.length; i++) {
+    const di = parseDate(d.dates[i]);
+    if (!di) continue;
+    if (di >= s && di <= e) {
+      dates.push(d.dates[i]);
+      ret.push(d.ret[i]);
+    }
+  }
+  return { ...d, dates, ret };
+}
+
+/** "2024-01-15" → "2024-01" */
+export function monthKey(date: string) {
+  return date.slice(0, 7);
+}
+
+/** 依月份連乘日報酬，回傳依時間排序的 [月份, 月報酬] */
+export function monthlyReturns(dates: string[], ret: number[]): [string, number][] {
+  const out: [string, number][] = [];
+  let cur = "";
+  let nav = 1;
+  for (let i = 0; i < dates.length; i++) {
+    const m = monthKey(dates[i]);
+    if (m !== cur) {
+      if (cur) out.push([cur, nav - 1]);
+      cur = m;
+      nav = 1;
+    }
+    nav *= 1 + ret[i];
+  }
+  if (cur) out.push([cur, nav - 1]);
+  return out;
+}
+
+export function mean(xs: number[]) {
+  return xs.length ? xs.reduce((a, b) => a + b, 0) / xs.length : 0;
+}
+
+/** 樣本標準差 (n - 1) */
+export function stdev(xs: number[]) {
+  const n = xs.length;
+  if (n < 2) return 0;
+  const m = mean(xs);
+  return Math.sqrt(xs.reduce((a, x) => a + (x - m) ** 2, 0) / (n - 1));
+}
+
+/** 樣本共變異數 (n - 1)；兩序列需等長 */
+export function covariance(xs: number[], ys: number[]) {
+  const n = Math.min(xs.length, ys.length);
+  if (n < 2) return 0;
+  const mx = mean(xs.slice(0, n));
+  const my = mean(ys.slice(0, n));
+  let s = 0;
+  for (let i = 0; i < n; i++) s += (xs[i] - mx) * (ys[i] - my);
+  return s / (n - 1);
+}
+
+export function correlation(xs: number[], ys: number[]) {
+  const n = Math.min(xs.length, ys.length);
+  const sx = stdev(xs.slice(0, n));
+  const sy = stdev(ys.slice(0, n));
+  if (sx === 0 || sy === 0) return null;
+  return covariance(xs, ys) / (sx * sy);
+}
+
+/** 帶名稱的日報酬序列（多序列比較的圖表共用） */
+export type LabeledReturns = {
+  name: string;
+  label: string;
+  dates: string[];
+  ret: number[];
+};
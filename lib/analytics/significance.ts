@@ -0,0 +1,186 @@
+/** =========================
+ * 統計顯著性 / 穩健度
+ * =========================
+ * - t 值：日報酬平均 / 標準誤
+ * - Sharpe、年化報酬的信賴區間：stationary bootstrap（區塊重抽，保留報酬的自相關）
+ *   亂數種子固定，同一份資料每次算出的區間一樣
+ * - PSR：Bailey & López de Prado (2012)，考慮偏態、峰態後 Sharpe > 0 的機率
+ * - DSR：同時比較 N 個序列時，以 N 個 Sharpe 的離散程度推估「最佳者純屬運氣」的門檻，再算 PSR
+ */
+import { mean, stdev } from "./series";
+import { moments, riskFreeDaily, type MetricOptions } from "./metrics";
+
+export type SignificanceOptions = MetricOptions & {
+  /** bootstrap 次數 */
+  samples?: number;
+  /** 平均區塊長度（交易日） */
+  blockLength?: number;
+  /** 信賴水準 */
+  confidence?: number;
+  seed?: number;
+};
+
+export type SignificanceMetrics = {
+  tStat: number | null;
+  sharpeLow: number | null;
+  sharpeHigh: number | null;
+  cagrLow: number | null;
+  cagrHigh: number | null;
+  psr: number | null;
+  dsr: number | null;
+};
+
+const EULER_GAMMA = 0.5772156649;
+
+/** 標準常態 CDF（Abramowitz & Stegun 7.1.26，誤差 < 1.5e-7） */
+export function normCdf(x: number) {
+  const z = Math.abs(x) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * z);
+  const erf =
+    1 - ((((1.061405429 * t - 1.453152027) * t + 1.421413741) * t - 0.284496736) * t + 0.254829592) * t * Math.exp(-z * z);
+  return x >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/** 標準常態反函數（Acklam 有理近似） */
+export function normInv(p: number) {
+  if (p <= 0) return -Infinity;
+  if (p >= 1) return Infinity;
+  const a = [-39.69683028665376, 220.9460984245205, -275.9285104469687, 138.357751867269, -30.66479806614716, 2.506628277459239];
+  const b = [-54.47609879822406, 161.5858368580409, -155.6989798598866, 66.80131188771972, -13.28068155288572];
+  const c = [-0.007784894002430293, -0.3223964580411365, -2.400758277161838, -2.549732539343734, 4.374664141464968, 2.938163982698783];
+  const d = [0.007784695709041462, 0.3224671290700398, 2.445134137142996, 3.754408661907416];
+  const lo = 0.02425;
+
+  if (p < lo || p > 1 - lo) {
+    const q = Math.sqrt(-2 * Math.log(p < lo ? p : 1 - p));
+    const x = (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) / ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    return p < lo ? x : -x;
+  }
+  const q = p - 0.5;
+  const r = q * q;
+  return (
+    ((((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q) /
+    (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1)
+  );
+}
+
+/** 可重現的亂數（mulberry32） */
+function seededRandom(seed: number) {
+  let s = seed >>> 0;
+  return () => {
+    s = (s + 0x6d2b79f5) >>> 0;
+    let t = s;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function quantile(sorted: number[], q: number) {
+  if (!sorted.length) return null;
+  const pos = (sorted.length - 1) * q;
+  const i = Math.floor(pos);
+  const j = Math.min(i + 1, sorted.length - 1);
+  return sorted[i] + (sorted[j] - sorted[i]) * (pos - i);
+}
+
+/** 日報酬平均的 t 值 */
+export function tStatistic(ret: number[]) {
+  const n = ret.length;
+  if (n < 2) return null;
+  const sd = stdev(ret);
+  return sd === 0 ? null : mean(ret) / (sd / Math.sqrt(n));
+}
+
+/**
+ * Probabilistic Sharpe Ratio
+ * sr / srBenchmark 為「未年化」的日 Sharpe；excessKurtosis 與 moments() 一致（常態 = 0）
+ */
+export function probabilisticSharpe(sr: number, n: number, skew: number, excessKurtosis: number, srBenchmark = 0) {
+  if (n < 2) return null;
+  const denom = 1 - skew * sr + ((excessKurtosis + 2) / 4) * sr * sr;
+  if (!(denom > 0)) return null;
+  return normCdf(((sr - srBenchmark) * Math.sqrt(n - 1)) / Math.sqrt(denom));
+}
+
+/** 比較 trials 個序列時，最大 Sharpe 的期望值（日 Sharpe，0 為虛無假設） */
+export function expectedMaxSharpe(srs: number[], trials = srs.length) {
+  if (trials < 2 || srs.length < 2) return 0;
+  const sd = stdev(srs);
+  return sd * ((1 - EULER_GAMMA) * normInv(1 - 1 / trials) + EULER_GAMMA * normInv(1 - 1 / (trials * Math.E)));
+}
+
+/** Stationary bootstrap 的 Sharpe / 年化報酬信賴區間 */
+export function bootstrapIntervals(dates: string[], ret: number[], opts: SignificanceOptions = {}) {
+  const { freq = 252, samples = 500, blockLength = 20, confidence = 0.95, seed = 20240101 } = opts;
+  const n = ret.length;
+  const empty = { sharpeLow: null, sharpeHigh: null, cagrLow: null, cagrHigh: null };
+  if (n < 20) return empty;
+
+  const rand = seededRandom(seed);
+  const logs = ret.map((r) => Math.log(1 + r));
+  const ex = riskFreeDaily(dates, opts).map((rf, i) => ret[i] - rf);
+  const pNew = 1 / blockLength;
+  const sharpes: number[] = [];
+  const cagrs: number[] = [];
+
+  for (let b = 0; b < samples; b++) {
+    let idx = Math.floor(rand() * n);
+    let sum = 0;
+    let sumSq = 0;
+    let sumLog = 0;
+    for (let i = 0; i < n; i++) {
+      if (i > 0) idx = rand() < pNew ? Math.floor(rand() * n) : (idx + 1) % n;
+      const x = ex[idx];
+      sum += x;
+      sumSq += x * x;
+      sumLog += logs[idx];
+    }
+    const m = sum / n;
+    const variance = (sumSq - n * m * m) / (n - 1);
+    if (variance > 0) sharpes.push((m * Math.sqrt(freq)) / Math.sqrt(variance));
+    cagrs.push(Math.exp((sumLog * freq) / n) - 1);
+  }
+
+  sharpes.sort((a, b) => a - b);
+  cagrs.sort((a, b) => a - b);
+  const tail = (1 - confidence) / 2;
+  return {
+    sharpeLow: quantile(sharpes, tail),
+    sharpeHigh: quantile(sharpes, 1 - tail),
+    cagrLow: quantile(cagrs, tail),
+    cagrHigh: quantile(cagrs, 1 - tail),
+  };
+}
+
+/**
+ * 一次計算整張表：DSR 需要知道同時比較了幾個序列與它們 Sharpe 的分散程度
+ * - net 為 true 的列（扣成本後的版本）不計入 Sharpe 分散，直接套用原始序列算出的門檻
+ * - trials 預設為有足夠資料的原始序列數
+ */
+export function calcSignificance(
+  series: { dates: string[]; ret: number[]; net?: boolean }[],
+  opts: SignificanceOptions & { trials?: number } = {}
+): SignificanceMetrics[] {
+  const stats = series.map(({ dates, ret }) => {
+    const rf = riskFreeDaily(dates.slice(0, ret.length), opts);
+    const ex = ret.map((r, i) => r - rf[i]);
+    const sd = stdev(ex);
+    const sr = ex.length > 1 && sd > 0 ? mean(ex) / sd : null;
+    return { sr, ...moments(ret) };
+  });
+
+  const srs = stats.filter((_, i) => !series[i].net).map((s) => s.sr).filter((x): x is number => x !== null);
+  const sr0 = expectedMaxSharpe(srs, opts.trials ?? srs.length);
+
+  return series.map(({ dates, ret }, i) => {
+    const { sr, skew, kurtosis } = stats[i];
+    const hasMoments = sr !== null && skew !== null && kurtosis !== null;
+    return {
+      tStat: tStatistic(ret),
+      ...bootstrapIntervals(dates, ret, opts),
+      psr: hasMoments ? probabilisticSharpe(sr, ret.length, skew, kurtosis) : null,
+      dsr: hasMoments ? probabilisticSharpe(sr, ret.length, skew, kurtosis, sr0) : null,
+    };
+  });
+}
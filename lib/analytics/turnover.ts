@@ -0,0 +1,107 @@
+/** =========================
+ * 換手率與交易成本
+ * =========================
+ * - 每月持股視為目標權重（檔案有提供權重時使用，否則等權重），單邊換手率 = Σ|w_t - w_{t-1}| / 2
+ * - 第一個月的建倉不計入換手率
+ * - 成本：買賣各收 feeBps，賣出另收 sellTaxBps；換倉成本 = 換手率 × (2 × fee + tax)
+ * - 成本在該月第一個交易日從日報酬扣除：(1 + r) × (1 - cost) - 1
+ */
+import type { HoldingsResp, ReturnsResp } from "../types";
+import { mean, monthKey } from "./series";
+
+export type Weights = Record<string, number>;
+
+export type TurnoverPoint = {
+  month: string;
+  /** 單邊換手率（0 ~ 1） */
+  turnover: number;
+  added: number;
+  removed: number;
+  /** 該月的有效檔數（1 / HHI） */
+  effectiveN: number;
+};
+
+export type CostModel = {
+  enabled: boolean;
+  /** 手續費，買賣各收（bps） */
+  feeBps: number;
+  /** 證交稅，只有賣出收（bps） */
+  sellTaxBps: number;
+};
+
+// 台股：手續費 0.1425%、證交稅 0.3%
+export const DEFAULT_COST_MODEL: CostModel = { enabled: false, feeBps: 14.25, sellTaxBps: 30 };
+
+export function equalWeights(tickers: string[]): Weights {
+  const uniq = Array.from(new Set(tickers));
+  const w: Weights = {};
+  for (const t of uniq) w[t] = 1 / uniq.length;
+  return w;
+}
+
+/** 某月的權重：檔案有權重就用，否則等權重 */
+export function monthWeights(h: HoldingsResp, month: string): Weights {
+  return h.weights?.[month] ?? equalWeights(h.holdings[month] ?? []);
+}
+
+/** 兩期權重之間的單邊換手率 */
+export function oneWayTurnover(prev: Weights, next: Weights) {
+  let s = 0;
+  for (const k of new Set([...Object.keys(prev), ...Object.keys(next)])) s += Math.abs((next[k] ?? 0) - (prev[k] ?? 0));
+  return s / 2;
+}
+
+/** 每月持股 → 逐月換手率（空名單的月份跳過） */
+export function monthlyTurnover(holdings: HoldingsResp): TurnoverPoint[] {
+  const months = [...holdings.months].filter((m) => holdings.holdings[m]?.length).sort();
+  const out: TurnoverPoint[] = [];
+  for (let i = 1; i < months.length; i++) {
+    const prev = holdings.holdings[months[i - 1]];
+    const next = holdings.holdings[months[i]];
+    const prevSet = new Set(prev);
+    const nextSet = new Set(next);
+    const w = monthWeights(holdings, months[i]);
+    out.push({
+      month: months[i],
+      turnover: oneWayTurnover(monthWeights(holdings, months[i - 1]), w),
+      added: next.filter((t) => !prevSet.has(t)).length,
+      removed: prev.filter((t) => !nextSet.has(t)).length,
+      effectiveN: 1 / Object.values(w).reduce((a, v) => a + v * v, 0),
+    });
+  }
+  return out;
+}
+
+/** 單次換倉成本（報酬的比例） */
+export function rebalanceCost(turnover: number, model: CostModel) {
+  return (turnover * (2 * model.feeBps + model.sellTaxBps)) / 10000;
+}
+
+/** 扣除交易成本後的日報酬 */
+export function netOfCostReturns(ret: ReturnsResp, points: TurnoverPoint[], model: CostModel): ReturnsResp {
+  const costByMonth = new Map(points.map((p) => [p.month, rebalanceCost(p.turnover, model)]));
+  const charged = new Set<string>();
+  const out = ret.ret.map((r, i) => {
+    const m = monthKey(ret.dates[i]);
+    const c = costByMonth.get(m);
+    if (c === undefined || charged.has(m)) return r;
+    charged.add(m);
+    return (1 + r) * (1 - c) - 1;
+  });
+  return { ...ret, ret: out };
+}
+
+export type TurnoverSummary = {
+  /** 平均單月換手率 */
+  monthly: number;
+  /** 年化換手率（月平均 × 12） */
+  annual: number;
+  /** 每年成本拖累（年化換手率 × 來回成本） */
+  annualCost: number;
+};
+
+export function summarizeTurnover(points: TurnoverPoint[], model: CostModel): TurnoverSummary | null {
+  if (!points.length) return null;
+  const monthly = mean(points.map((p) => p.turnover));
+  return { monthly, annual: monthly * 12, annualCost: rebalanceCost(monthly * 12, model) };
+}
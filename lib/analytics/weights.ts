@@ -0,0 +1,63 @@
+/** =========================
+ * 持股權重：集中度與權重變化
+ * =========================
+ * - 權重來自 holdings 檔的 {ticker, weight}；沒有權重的月份視為等權重（見 turnover.monthWeights）
+ * - HHI = Σw²；有效檔數 = 1 / HHI（等權重 N 檔時剛好是 N）
+ * - 前十大權重 = 權重最大的 10 檔合計
+ */
+import type { HoldingsResp } from "../types";
+import { monthWeights, type Weights } from "./turnover";
+
+export type Concentration = {
+  n: number;
+  top10: number;
+  hhi: number;
+  effectiveN: number;
+};
+
+export type WeightChange = {
+  ticker: string;
+  /** 前一期權重（沒持有為 0） */
+  from: number;
+  to: number;
+  change: number;
+};
+
+/** 檔案是否有提供任何一個月的權重 */
+export function hasWeights(h: HoldingsResp | null | undefined) {
+  return !!h?.weights && Object.keys(h.weights).length > 0;
+}
+
+export function concentration(w: Weights): Concentration | null {
+  const values = Object.values(w).filter((v) => v > 0);
+  if (!values.length) return null;
+  const hhi = values.reduce((a, v) => a + v * v, 0);
+  const top10 = [...values]
+    .sort((a, b) => b - a)
+    .slice(0, 10)
+    .reduce((a, v) => a + v, 0);
+  return { n: values.length, top10, hhi, effectiveN: 1 / hhi };
+}
+
+export function monthConcentration(h: HoldingsResp, month: string) {
+  return concentration(monthWeights(h, month));
+}
+
+/** 兩期之間每檔的權重變化，依變化幅度由大到小 */
+export function weightChanges(prev: Weights, next: Weights): WeightChange[] {
+  return Array.from(new Set([...Object.keys(prev), ...Object.keys(next)]))
+    .map((ticker) => {
+      const from = prev[ticker] ?? 0;
+      const to = next[ticker] ?? 0;
+      return { ticker, from, to, change: to - from };
+    })
+    .sort((a, b) => Math.abs(b.change) - Math.abs(a.change) || a.ticker.localeCompare(b.ticker));
+}
+
+/** 多個名單等權合併後的權重（交集 / 聯集面板用） */
+export function blendWeights(list: Weights[]): Weights {
+  const out: Weights = {};
+  if (!list.length) return out;
+  for (const w of list) for (const [t, v] of Object.entries(w)) out[t] = (out[t] ?? 0) + v / list.length;
+  return out;
+}
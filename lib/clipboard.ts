@@ -0,0 +1,38 @@
+/** =========================
+ * 複製 / 匯出表格
+ * =========================
+ * 剪貼簿以 Tab 分隔，直接貼進 Excel / Google Sheets 會自動分欄；
+ * 下載則輸出帶 BOM 的 UTF-8 CSV，Excel 開啟中文才不會亂碼。
+ */
+export function toTsv(rows: (string | number)[][]) {
+  return rows.map((row) => row.join("\t")).join("\n");
+}
+
+export async function copyText(text: string) {
+  try {
+    await navigator.clipboard.writeText(text);
+  } catch {
+    // 非 https 或瀏覽器不支援時的後備做法
+    const textarea = document.createElement("textarea");
+    textarea.value = text;
+    document.body.appendChild(textarea);
+    textarea.select();
+    document.execCommand("copy");
+    document.body.removeChild(textarea);
+  }
+}
+
+function csvCell(v: string | number) {
+  const s = String(v);
+  return /[",\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+}
+
+export function downloadCsv(filename: string, rows: (string | number)[][]) {
+  const text = "\ufeff" + rows.map((row) => row.map(csvCell).join(",")).join("\n");
+  const url = URL.createObjectURL(new Blob([text], { type: "text/csv;charset=utf-8" }));
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.click();
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,40 @@
+/** =========================
+ * Build 時 (server) 專用的資料來源
+ * =========================
+ * local 模式下瀏覽器用相對 URL 讀 public/factor-data；但 generateStaticParams
+ * 在 Node 端執行，沒有網址可抓，因此改直接讀磁碟上的同一份快照。
+ * 只能從 server component / generateStaticParams 匯入。
+ */
+import { readFile } from "node:fs/promises";
+import path from "node:path";
+import { getDataSource, listFromSnapshot, setDataSource, type DataSource, type SnapshotIndex } from "./data-source";
+
+export const SNAPSHOT_DIR = path.join(process.cwd(), "public", "factor-data");
+
+export function fsDirSource(dir: string): DataSource {
+  let index: Promise<SnapshotIndex> | null = null;
+
+  const readJson = async <T>(rel: string): Promise<T> => {
+    // loader 傳進來的路徑已 URL 編碼，磁碟上的檔名則是原始名稱
+    const file = path.join(dir, ...rel.split("/").filter(Boolean).map(decodeURIComponent));
+    return JSON.parse(await readFile(file, "utf8")) as T;
+  };
+
+  return {
+    // 與瀏覽器端 localDirSource 不同 id，避免共用快取 key
+    id: `fs:${dir}`,
+    label: `快照目錄 ${dir}`,
+    getJson: readJson,
+    async listJson(folder: string) {
+      if (!index) index = readJson<SnapshotIndex>("snapshot.json");
+      return listFromSnapshot(await index, folder);
+    },
+  };
+}
+
+/** local 模式時讓 server 端改讀磁碟快照；回傳是否為快照模式 */
+export function enableSnapshotOnServer(): boolean {
+  if (process.env.NEXT_PUBLIC_DATA_SOURCE !== "local") return false;
+  if (!getDataSource().id.startsWith("fs:")) setDataSource(fsDirSource(SNAPSHOT_DIR));
+  return true;
+}
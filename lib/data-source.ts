@@ -0,0 +1,172 @@
+/** =========================
+ * 資料來源 (可替換後端)
+ * =========================
+ * 所有 JSON 檔都以 factor-platform-database 內的相對路徑存取，例如
+ * `data/returns/Top200.json`。後端只負責把路徑換成實際內容：
+ * - github：raw.githubusercontent.com（可指向 fork / mirror）
+ * - local ：與靜態網站一起部署的目錄（例如 public/factor-data）
+ * - memory：記憶體內的 fixture，方便本機開發
+ */
+
+export type DataSource = {
+  /** 來源識別字串，用於快取 key */
+  id: string;
+  /** 顯示用說明 */
+  label: string;
+  getJson<T>(path: string): Promise<T>;
+  /** 列出資料夾內的 JSON 檔名（不含副檔名）；不支援的後端會丟出錯誤 */
+  listJson(folder: string): Promise<string[]>;
+};
+
+export type GithubSourceOptions = {
+  owner: string;
+  repo: string;
+  branch: string;
+};
+
+export const DEFAULT_GITHUB: GithubSourceOptions = {
+  owner: "alfred0630",
+  repo: "factor-platform-database",
+  branch: "main",
+};
+
+// 瀏覽器端不要吃到 HTTP 快取；build 時 (server) 維持預設，避免被判定為動態頁面
+const FETCH_INIT: RequestInit = typeof window === "undefined" ? {} : { cache: "no-store" };
+
+async function fetchJson<T>(url: string): Promise<T> {
+  const r = await fetch(url, FETCH_INIT);
+  if (!r.ok) {
+    const t = await r.text().catch(() => "");
+    throw new Error(`fetch failed ${r.status}: ${url}\n${t.slice(0, 200)}`);
+  }
+  return (await r.json()) as T;
+}
+
+function jsonFileStem(fileName: string) {
+  return fileName.replace(/\.json$/i, "");
+}
+
+function trimSlashes(s: string) {
+  return s.replace(/^\/+|\/+$/g, "");
+}
+
+type GithubFile = {
+  name: string;
+  path?: string;
+  type: string;
+};
+
+export function githubRawSource(opts: GithubSourceOptions = DEFAULT_GITHUB): DataSource {
+  const { owner, repo, branch } = opts;
+  // raw file base (fast, CORS ok)
+  const rawBase = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}`;
+  const apiBase = `https://api.github.com/repos/${owner}/${repo}/contents`;
+
+  return {
+    id: `github:${owner}/${repo}@${branch}`,
+    label: `GitHub ${owner}/${repo} (${branch})`,
+    getJson: <T>(path: string) => fetchJson<T>(`${rawBase}/${trimSlashes(path)}`),
+    async listJson(folder: string) {
+      const files = await fetchJson<GithubFile[]>(`${apiBase}/${trimSlashes(folder)}?ref=${branch}`);
+      return files
+        .filter((x) => x.type === "file")
+        .filter((x) => typeof x.name === "string" && x.name.toLowerCase().endsWith(".json"))
+        .map((x) => jsonFileStem(x.name))
+        .sort((a, b) => a.localeCompare(b));
+    },
+  };
+}
+
+// public/factor-data/snapshot.json（scripts/snapshot-data.mjs 產生）
+export type SnapshotIndex = {
+  version: string;
+  created_at: string;
+  source: string;
+  files: string[];
+};
+
+/** 從快照索引列出資料夾內的 JSON 檔名 */
+export function listFromSnapshot(index: SnapshotIndex, folder: string): string[] {
+  const prefix = `${trimSlashes(folder)}/`;
+  return index.files
+    .filter((f) => f.startsWith(prefix) && !f.slice(prefix.length).includes("/") && f.endsWith(".json"))
+    .map((f) => jsonFileStem(f.slice(prefix.length)))
+    .sort((a, b) => a.localeCompare(b));
+}
+
+export function localDirSource(baseUrl: string): DataSource {
+  const base = baseUrl.replace(/\/+$/, "");
+  let index: Promise<SnapshotIndex> | null = null;
+
+  return {
+    id: `local:${base}`,
+    label: `本機目錄 ${base}`,
+    getJson: <T>(path: string) => fetchJson<T>(`${base}/${trimSlashes(path)}`),
+    // 靜態目錄無法列檔，改讀快照索引
+    async listJson(folder: string) {
+      if (!index) index = fetchJson<SnapshotIndex>(`${base}/snapshot.json`);
+      try {
+        return listFromSnapshot(await index, folder);
+      } catch (e) {
+        index = null;
+        throw new Error(`local source cannot list ${folder}: snapshot.json unavailable\n${e instanceof Error ? e.message : e}`);
+      }
+    },
+  };
+}
+
+export function memorySource(files: Record<string, unknown>, id = "memory"): DataSource {
+  return {
+    id: `memory:${id}`,
+    label: `記憶體 fixture (${id})`,
+    async getJson<T>(path: string) {
+      const key = trimSlashes(path);
+      if (!(key in files)) throw new Error(`fixture missing: ${key}`);
+      // 回傳複本，避免呼叫端改到 fixture 本身
+      return JSON.parse(JSON.stringify(files[key])) as T;
+    },
+    async listJson(folder: string) {
+      const prefix = `${trimSlashes(folder)}/`;
+      return Object.keys(files)
+        .filter((k) => k.startsWith(prefix) && !k.slice(prefix.length).includes("/") && k.endsWith(".json"))
+        .map((k) => jsonFileStem(k.slice(prefix.length)))
+        .sort((a, b) => a.localeCompare(b));
+    },
+  };
+}
+
+/** =========================
+ * 目前使用中的來源
+ * =========================
+ * 由 NEXT_PUBLIC_DATA_* 環境變數決定（build 時寫入）：
+ * - NEXT_PUBLIC_DATA_SOURCE      github | local（預設 github）
+ * - NEXT_PUBLIC_DATA_GH_OWNER / NEXT_PUBLIC_DATA_GH_REPO / NEXT_PUBLIC_DATA_GH_BRANCH
+ * - NEXT_PUBLIC_DATA_LOCAL_BASE  local 模式的 URL 前綴（預設 `<basePath>/factor-data`）
+ */
+function sourceFromEnv(): DataSource {
+  // 注意：NEXT_PUBLIC_* 必須逐一寫出，Next 才會在 build 時替換
+  const kind = process.env.NEXT_PUBLIC_DATA_SOURCE || "github";
+
+  if (kind === "local") {
+    const basePath = process.env.NEXT_PUBLIC_BASE_PATH || "";
+    return localDirSource(process.env.NEXT_PUBLIC_DATA_LOCAL_BASE || `${basePath}/factor-data`);
+  }
+
+  return githubRawSource({
+    owner: process.env.NEXT_PUBLIC_DATA_GH_OWNER || DEFAULT_GITHUB.owner,
+    repo: process.env.NEXT_PUBLIC_DATA_GH_REPO || DEFAULT_GITHUB.repo,
+    branch: process.env.NEXT_PUBLIC_DATA_GH_BRANCH || DEFAULT_GITHUB.branch,
+  });
+}
+
+let activeSource: DataSource | null = null;
+
+export function getDataSource(): DataSource {
+  if (!activeSource) activeSource = sourceFromEnv();
+  return activeSource;
+}
+
+/** 切換資料來源（例如換成 memorySource 做本機測試） */
+export function setDataSource(source: DataSource) {
+  activeSource = source;
+}
@@ -0,0 +1,236 @@
+/** =========================
+ * 資料存取 (typed loaders)
+ * =========================
+ * 頁面只透過這裡讀資料，不直接組 URL；實際來源由 data-source 決定。
+ * 所有 loader 都經過 dataset-cache：同一檔案在整個 session 只抓一次，
+ * returns / holdings 另外依資料版本存進 IndexedDB。
+ * 讀進來的 JSON 一律先經過 validate，結果記錄到 diagnostics；
+ * `section` 參數是使用這份資料的 UI 區塊名稱，顯示在資料診斷面板。
+ */
+import { getDataSource } from "./data-source";
+import { cached } from "./dataset-cache";
+import { recordFailure, recordLoad } from "./diagnostics";
+import {
+  SchemaError,
+  validateGlobalWave,
+  validateHeatmap,
+  validateHoldings,
+  validateManifest,
+  validateMeta,
+  validateReturns,
+  validateRiskFree,
+  validateStockNames,
+  validateStockSectors,
+  validateStrategyManifest,
+  type Validated,
+} from "./validate";
+import type {
+  GlobalWaveResp,
+  HeatmapResp,
+  HoldingsResp,
+  ManifestResp,
+  MetaResp,
+  ReturnsResp,
+  RiskFreeResp,
+  StockNamesResp,
+  StockSectorsResp,
+  StrategyManifestEntry,
+} from "./types";
+
+const enc = encodeURIComponent;
+
+// IndexedDB 內存放的是驗證後的 Validated<T>；格式變更時調整這個值讓舊資料失效
+const CACHE_FORMAT = "v3";
+
+function cacheKey(path: string) {
+  return `${getDataSource().id}|${path}`;
+}
+
+function hashString(s: string) {
+  let h = 0;
+  for (let i = 0; i < s.length; i++) h = (Math.imul(31, h) + s.charCodeAt(i)) | 0;
+  return (h >>> 0).toString(36);
+}
+
+type LoadOptions = {
+  persist?: boolean;
+  section?: string;
+};
+
+async function loadValidated<T>(
+  path: string,
+  validate: (raw: unknown) => Validated<T>,
+  opts: LoadOptions = {}
+): Promise<T> {
+  let result: Validated<T>;
+  try {
+    result = await cached(cacheKey(path), async () => validate(await getDataSource().getJson<unknown>(path)), {
+      persist: opts.persist,
+      version: persistVersion,
+    });
+  } catch (e) {
+    const message = e instanceof Error ? e.message : String(e);
+    recordFailure(path, message, e instanceof SchemaError ? e.issues : [], opts.section);
+    throw e;
+  }
+  recordLoad(path, result.issues, opts.section);
+  return result.value;
+}
+
+function loadManifest(section?: string): Promise<ManifestResp> {
+  return loadValidated("data/manifest.json", validateManifest, { section });
+}
+
+/** 目前資料版本：manifest 的 version / asof / updated_at；都沒有時以內容雜湊 + 當日日期代替 */
+export function getDataVersion(): Promise<string> {
+  return cached(cacheKey("#version"), async () => {
+    const m = await loadManifest();
+    const tag = m.version || m.asof || m.updated_at;
+    if (tag) return tag;
+    // 沒有版本欄位時，資料最多晚一天才會重新抓
+    return `${hashString(JSON.stringify(m))}-${new Date().toISOString().slice(0, 10)}`;
+  });
+}
+
+async function persistVersion() {
+  return `${CACHE_FORMAT}:${await getDataVersion()}`;
+}
+
+// === 因子 (data/) ===
+export async function loadFactorList(section?: string): Promise<string[]> {
+  const m = await loadManifest(section);
+  return [...m.factors].sort((a, b) => a.localeCompare(b));
+}
+
+export function loadFactorReturns(factor: string, section?: string): Promise<ReturnsResp> {
+  return loadValidated(`data/returns/${enc(factor)}.json`, (raw) => validateReturns(raw, factor), {
+    persist: true,
+    section,
+  });
+}
+
+export function loadFactorHoldings(factor: string, section?: string): Promise<HoldingsResp> {
+  return loadValidated(`data/holdings/${enc(factor)}.json`, (raw) => validateHoldings(raw, factor), {
+    persist: true,
+    section,
+  });
+}
+
+export function loadFactorMeta(factor: string, section?: string): Promise<MetaResp> {
+  return loadValidated(`data/factors/${enc(factor)}.json`, validateMeta, { section });
+}
+
+export function loadGlobalWave(factor: string, section?: string): Promise<GlobalWaveResp> {
+  return loadValidated(`data/global_wave/${enc(factor)}.json`, (raw) => validateGlobalWave(raw, factor), { section });
+}
+
+export function loadHeatmap(section?: string): Promise<HeatmapResp> {
+  return loadValidated("data/heatmap/heatmap_12m.json", validateHeatmap, { section });
+}
+
+export function loadStockNames(section?: string): Promise<StockNamesResp> {
+  return loadValidated("data/stock_names.json", validateStockNames, { section });
+}
+
+/** 選填檔案；沒有時不顯示產業分析 */
+export function loadStockSectors(section?: string): Promise<StockSectorsResp> {
+  return loadValidated("data/stock_sectors.json", validateStockSectors, { section });
+}
+
+/** 選填檔案；沒有時頁面改用固定利率 */
+export function loadRiskFree(section?: string): Promise<RiskFreeResp> {
+  return loadValidated("data/risk_free.json", validateRiskFree, { section });
+}
+
+// === 策略 (strategy_data/) ===
+export function loadStrategyReturns(strategy: string, section?: string): Promise<ReturnsResp> {
+  return loadValidated(`strategy_data/returns/${enc(strategy)}.json`, (raw) => validateReturns(raw, strategy), {
+    persist: true,
+    section,
+  });
+}
+
+export function loadStrategyHoldings(strategy: string, section?: string): Promise<HoldingsResp> {
+  return loadValidated(`strategy_data/holdings/${enc(strategy)}.json`, (raw) => validateHoldings(raw, strategy), {
+    persist: true,
+    section,
+  });
+}
+
+export type StrategyCatalog = {
+  strategies: StrategyManifestEntry[];
+  /** manifest：來自 strategy_data/manifest.json；listing：manifest 缺漏時改掃資料夾 */
+  origin: "manifest" | "listing";
+};
+
+// manifest 不存在時的備援：returns 與 holdings 都有的策略優先；若完全沒有配對，就只列 returns
+async function listStrategiesFromFolders(section?: string): Promise<StrategyManifestEntry[]> {
+  const source = getDataSource();
+  const list = (folder: string) =>
+    cached(cacheKey(`${folder}/`), () => source.listJson(folder)).catch((e) => {
+      recordFailure(`${folder}/`, e instanceof Error ? e.message : String(e), [], section);
+      throw e;
+    });
+  const [returnNames, holdingNames] = await Promise.all([list("strategy_data/returns"), list("strategy_data/holdings")]);
+
+  const holdingSet = new Set(holdingNames);
+  const bothSides = returnNames.filter((name) => holdingSet.has(name));
+  const names = bothSides.length > 0 ? bothSides : returnNames;
+
+  return names.map((name) => ({ name, has_returns: true, has_holdings: holdingSet.has(name) }));
+}
+
+/**
+ * 策略清單：優先讀 strategy_data/manifest.json，讀不到才掃 strategy_data 資料夾
+ * - manifest 格式錯誤（SchemaError）不退回資料夾清單，直接拋出讓使用者看到
+ */
+export async function loadStrategyCatalog(section?: string): Promise<StrategyCatalog> {
+  try {
+    const m = await loadValidated("strategy_data/manifest.json", validateStrategyManifest, { section });
+    return { strategies: m.strategies, origin: "manifest" };
+  } catch (e) {
+    if (e instanceof SchemaError) throw e;
+    return { strategies: await listStrategiesFromFolders(section), origin: "listing" };
+  }
+}
+
+export async function listStrategyNames(section?: string): Promise<string[]> {
+  const { strategies } = await loadStrategyCatalog(section);
+  return strategies.filter((s) => s.has_returns).map((s) => s.name);
+}
+
+// === 因子 + 策略持股 ===
+export type HoldingsSource = {
+  kind: "factor" | "strategy";
+  name: string;
+  /** 策略的 manifest 資訊（因子為 undefined） */
+  entry?: StrategyManifestEntry;
+  holdings: HoldingsResp;
+};
+
+/** data/holdings 的全部因子與 strategy_data/holdings 的全部策略；讀不到或沒有月份的（例如指數）略過 */
+export async function loadAllHoldings(section?: string): Promise<HoldingsSource[]> {
+  const [factors, strategies] = await Promise.all([
+    loadFactorList(section).catch((): string[] => []),
+    loadStrategyCatalog(section)
+      .then((c) => c.strategies.filter((s) => s.has_holdings !== false))
+      .catch((): StrategyManifestEntry[] => []),
+  ]);
+
+  const load = async (src: Omit<HoldingsSource, "holdings">, loader: () => Promise<HoldingsResp>) => {
+    try {
+      const holdings = await loader();
+      return holdings.months.length ? { ...src, holdings } : null;
+    } catch {
+      return null;
+    }
+  };
+
+  const rows = await Promise.all([
+    ...factors.map((name) => load({ kind: "factor", name }, () => loadFactorHoldings(name, section))),
+    ...strategies.map((entry) =>
+      load({ kind: "strategy", name: entry.name, entry }, () => loadStrategyHoldings(entry.name, section))
+    ),
+  ]);
+  return rows.filter((r): r is HoldingsSource => r !== null);
+}
@@ -0,0 +1,139 @@
+/** =========================
+ * 資料集快取
+ * =========================
+ * - 記憶體：同一個 key 只會發一次請求，進行中的請求直接共用同一個 Promise
+ * - IndexedDB：解析後的資料依「資料版本」保存，換頁或重新整理都不必再抓
+ * 請求失敗時會從記憶體移除，下次呼叫會重試。
+ */
+
+const DB_NAME = "factor-platform-cache";
+const STORE = "datasets";
+
+type StoredEntry = {
+  key: string;
+  version: string;
+  value: unknown;
+  savedAt: number;
+};
+
+const memory = new Map<string, Promise<unknown>>();
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+let prunedVersion: string | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve) => {
+    if (typeof indexedDB === "undefined") return resolve(null);
+    try {
+      const req = indexedDB.open(DB_NAME, 1);
+      req.onupgradeneeded = () => {
+        req.result.createObjectStore(STORE, { keyPath: "key" });
+      };
+      req.onsuccess = () => resolve(req.result);
+      // 無痕模式或被停用時直接退回只用記憶體
+      req.onerror = () => resolve(null);
+      req.onblocked = () => resolve(null);
+    } catch {
+      resolve(null);
+    }
+  });
+
+  return dbPromise;
+}
+
+function idbGet(db: IDBDatabase, key: string): Promise<StoredEntry | undefined> {
+  return new Promise((resolve) => {
+    try {
+      const req = db.transaction(STORE, "readonly").objectStore(STORE).get(key);
+      req.onsuccess = () => resolve(req.result as StoredEntry | undefined);
+      req.onerror = () => resolve(undefined);
+    } catch {
+      resolve(undefined);
+    }
+  });
+}
+
+function idbPut(db: IDBDatabase, entry: StoredEntry): Promise<void> {
+  return new Promise((resolve) => {
+    try {
+      const tx = db.transaction(STORE, "readwrite");
+      tx.objectStore(STORE).put(entry);
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => resolve();
+      tx.onabort = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+}
+
+// 刪掉不是目前版本的舊資料，避免 IndexedDB 無限長大
+function pruneStale(db: IDBDatabase, version: string) {
+  if (prunedVersion === version) return;
+  prunedVersion = version;
+  try {
+    const req = db.transaction(STORE, "readwrite").objectStore(STORE).openCursor();
+    req.onsuccess = () => {
+      const cursor = req.result;
+      if (!cursor) return;
+      if ((cursor.value as StoredEntry).version !== version) cursor.delete();
+      cursor.continue();
+    };
+  } catch {
+    // ignore
+  }
+}
+
+export type CacheOptions = {
+  /** 同時寫入 IndexedDB（需提供資料版本） */
+  persist?: boolean;
+  /** 取得目前資料版本；版本不同的 IndexedDB 資料視為過期 */
+  version?: () => Promise<string>;
+};
+
+async function loadPersisted<T>(key: string, load: () => Promise<T>, version: () => Promise<string>): Promise<T> {
+  const [db, v] = await Promise.all([openDb(), version().catch(() => null)]);
+  if (!db || v === null) return load();
+
+  pruneStale(db, v);
+
+  const hit = await idbGet(db, key);
+  if (hit && hit.version === v) return hit.value as T;
+
+  const value = await load();
+  void idbPut(db, { key, version: v, value, savedAt: Date.now() });
+  return value;
+}
+
+/** 以 key 快取 load() 的結果；key 應包含資料來源 id */
+export function cached<T>(key: string, load: () => Promise<T>, opts: CacheOptions = {}): Promise<T> {
+  const hit = memory.get(key);
+  if (hit) return hit as Promise<T>;
+
+  const p = opts.persist && opts.version ? loadPersisted(key, load, opts.version) : load();
+  memory.set(key, p);
+  p.catch(() => {
+    if (memory.get(key) === p) memory.delete(key);
+  });
+  return p;
+}
+
+/** 清除記憶體與 IndexedDB 的所有快取 */
+export async function clearDatasetCache() {
+  memory.clear();
+  prunedVersion = null;
+  const db = await openDb();
+  if (!db) return;
+  await new Promise<void>((resolve) => {
+    try {
+      const tx = db.transaction(STORE, "readwrite");
+      tx.objectStore(STORE).clear();
+      tx.oncomplete = () => resolve();
+      tx.onerror = () => resolve();
+    } catch {
+      resolve();
+    }
+  });
+}
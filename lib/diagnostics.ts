@@ -0,0 +1,78 @@
+/** =========================
+ * 資料診斷紀錄
+ * =========================
+ * 每個讀過的檔案記一筆：狀態、schema 問題、以及用到它的 UI 區塊。
+ * 以 subscribe / getSnapshot 提供給 React 的 useSyncExternalStore。
+ */
+import type { SchemaIssue } from "./validate";
+
+export type FileStatus = "ok" | "warning" | "error";
+
+export type FileDiagnostic = {
+  path: string;
+  status: FileStatus;
+  issues: SchemaIssue[];
+  /** 讀取失敗或結構錯誤時的訊息 */
+  error?: string;
+  /** 受影響（使用此檔案）的 UI 區塊 */
+  sections: string[];
+  updatedAt: number;
+};
+
+const records = new Map<string, FileDiagnostic>();
+const listeners = new Set<() => void>();
+let snapshot: FileDiagnostic[] = [];
+
+function emit() {
+  snapshot = Array.from(records.values()).sort((a, b) => a.path.localeCompare(b.path));
+  for (const l of listeners) l();
+}
+
+function withSection(sections: string[], section?: string) {
+  return section && !sections.includes(section) ? [...sections, section] : sections;
+}
+
+/** 記錄一次成功讀取（issues 為空代表完全符合 schema） */
+export function recordLoad(path: string, issues: SchemaIssue[], section?: string) {
+  const prev = records.get(path);
+  const sections = withSection(prev?.sections || [], section);
+  const status: FileStatus = issues.length ? "warning" : "ok";
+  // 快取命中時內容相同，只有多了區塊才需要通知
+  if (prev && prev.status === status && !prev.error && prev.issues.length === issues.length && prev.sections === sections) {
+    return;
+  }
+  records.set(path, { path, status, issues, sections, updatedAt: Date.now() });
+  emit();
+}
+
+/** 記錄讀取失敗或無法修正的 schema 錯誤 */
+export function recordFailure(path: string, error: string, issues: SchemaIssue[] = [], section?: string) {
+  const prev = records.get(path);
+  records.set(path, {
+    path,
+    status: "error",
+    issues,
+    error,
+    sections: withSection(prev?.sections || [], section),
+    updatedAt: Date.now(),
+  });
+  emit();
+}
+
+export function subscribeDiagnostics(listener: () => void) {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+export function getDiagnosticsSnapshot(): FileDiagnostic[] {
+  return snapshot;
+}
+
+const EMPTY: FileDiagnostic[] = [];
+
+// SSR 時沒有任何紀錄
+export function getServerDiagnosticsSnapshot(): FileDiagnostic[] {
+  return EMPTY;
+}
@@ -0,0 +1,24 @@
+/** =========================
+ * 因子中文標籤
+ * =========================
+ * 首頁、策略庫與全站搜尋共用；沒有列出的因子直接顯示原始名稱。
+ */
+export const FACTOR_LABELS: Record<string, string> = {
+  StarSearch: "StarSearch",
+  EPS_growth: "EPS 動能",
+  High_yield: "高股息",
+  High_yoy: "營收成長",
+  Low_beta: "低 Beta",
+  Margin_growth: "利潤率成長",
+  Momentum_01: "價格動能 1M",
+  Momentum_03: "價格動能 3M",
+  Momentum_06: "價格動能 6M",
+  PB_low: "低 PB",
+  PE_low: "低 PE",
+  Top200: "市值前 200",
+  TWA00: "加權指數",
+};
+
+export function getFactorLabel(factorName: string): string {
+  return FACTOR_LABELS[factorName] || factorName;
+}
@@ -0,0 +1,19 @@
+"use client";
+
+import { useEffect, useState } from "react";
+
+/** =========================
+ * 延遲更新的值
+ * =========================
+ * 輸入停止 delay 毫秒後才更新，給耗時的計算（例如 bootstrap）用，避免每次按鍵都重算
+ */
+export function useDebouncedValue<T>(value: T, delay = 400): T {
+  const [settled, setSettled] = useState(value);
+
+  useEffect(() => {
+    const id = window.setTimeout(() => setSettled(value), delay);
+    return () => window.clearTimeout(id);
+  }, [value, delay]);
+
+  return settled;
+}
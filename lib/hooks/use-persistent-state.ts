@@ -0,0 +1,84 @@
+"use client";
+
+import { useCallback, useMemo, useSyncExternalStore } from "react";
+
+/** =========================
+ * 存在 localStorage 的 state
+ * =========================
+ * 以 useSyncExternalStore 讀取：SSR / 靜態匯出時拿到 initial，hydrate 後才換成使用者設定；
+ * 同一個 key 在不同元件 / 分頁之間會同步。initial 請傳穩定的常數。
+ * validate（選填）檢查存下來的值，回傳 null 時改用 initial；舊版格式或壞掉的資料不會讓頁面出錯。
+ * validate 同樣請傳模組層級的函式。
+ */
+const listeners = new Map<string, Set<() => void>>();
+
+function notify(key: string) {
+  for (const l of listeners.get(key) || []) l();
+}
+
+function readRaw(key: string) {
+  try {
+    return window.localStorage.getItem(key);
+  } catch {
+    return null;
+  }
+}
+
+function parseStored<T>(raw: string | null, initial: T, validate?: (raw: unknown) => T | null): T {
+  if (raw === null) return initial;
+  try {
+    const v: unknown = JSON.parse(raw);
+    return validate ? (validate(v) ?? initial) : (v as T);
+  } catch {
+    return initial;
+  }
+}
+
+export function usePersistentState<T>(
+  key: string,
+  initial: T,
+  validate?: (raw: unknown) => T | null
+): [T, (value: T | ((prev: T) => T)) => void] {
+  const subscribe = useCallback(
+    (cb: () => void) => {
+      if (!listeners.has(key)) listeners.set(key, new Set());
+      listeners.get(key)!.add(cb);
+      const onStorage = (e: StorageEvent) => {
+        if (e.key === key) cb();
+      };
+      window.addEventListener("storage", onStorage);
+      return () => {
+        listeners.get(key)?.delete(cb);
+        window.removeEventListener("storage", onStorage);
+      };
+    },
+    [key]
+  );
+
+  const raw = useSyncExternalStore(
+    subscribe,
+    () => readRaw(key),
+    () => null
+  );
+
+  const value = useMemo(() => parseStored(raw, initial, validate), [raw, initial, validate]);
+
+  const setValue = useCallback(
+    (v: T | ((prev: T) => T)) => {
+      try {
+        // updater 以 localStorage 現值為準，hydrate 前呼叫也不會蓋掉已存的設定
+        let next = v;
+        if (typeof v === "function") {
+          next = (v as (prev: T) => T)(parseStored(readRaw(key), initial, validate));
+        }
+        window.localStorage.setItem(key, JSON.stringify(next));
+      } catch {
+        // 空間不足或被停用時無法保存，維持原值
+      }
+      notify(key);
+    },
+    [key, initial, validate]
+  );
+
+  return [value, setValue];
+}
@@ -0,0 +1,108 @@
+/** =========================
+ * 全站搜尋索引
+ * =========================
+ * - 索引因子（英文名 + 中文標籤）、策略（名稱 + display_name）與個股（代號 + 公司名）
+ * - 個股另外納入持股檔出現過的代號，沒有 stock_names.json 時仍可用代號搜尋
+ * - 比對不分大小寫、忽略空白；完全相同 > 開頭相符 > 包含
+ * - 同分時依類別排序：因子、策略、個股
+ */
+import type { StockNamesResp, StrategyManifestEntry } from "./types";
+import { getFactorLabel } from "./factor-labels";
+
+export type SearchKind = "factor" | "strategy" | "stock";
+
+export type SearchItem = {
+  kind: SearchKind;
+  /** 主要顯示文字 */
+  title: string;
+  subtitle?: string;
+  href: string;
+  /** 參與比對的字串（已正規化） */
+  terms: string[];
+};
+
+export const SEARCH_KIND_LABELS: Record<SearchKind, string> = {
+  factor: "因子",
+  strategy: "策略",
+  stock: "個股",
+};
+
+const KIND_ORDER: Record<SearchKind, number> = { factor: 0, strategy: 1, stock: 2 };
+
+function normalize(s: string) {
+  return s.toLowerCase().replace(/\s+/g, "");
+}
+
+export function buildSearchIndex(
+  factors: string[],
+  strategies: StrategyManifestEntry[],
+  stockNames: StockNamesResp,
+  tickers: Iterable<string> = []
+): SearchItem[] {
+  const items: SearchItem[] = [];
+
+  for (const f of factors) {
+    const label = getFactorLabel(f);
+    items.push({
+      kind: "factor",
+      title: label,
+      subtitle: label === f ? undefined : f,
+      href: `/factor/${encodeURIComponent(f)}`,
+      terms: [f, label].map(normalize),
+    });
+  }
+
+  for (const s of strategies) {
+    const label = s.display_name || s.name;
+    items.push({
+      kind: "strategy",
+      title: label,
+      subtitle: [label === s.name ? "" : s.name, s.category ?? ""].filter(Boolean).join(" · ") || undefined,
+      href: `/strategy-library?strategy=${encodeURIComponent(s.name)}`,
+      terms: [s.name, label].map(normalize),
+    });
+  }
+
+  for (const [code, name] of Object.entries(stockNames)) {
+    items.push({
+      kind: "stock",
+      title: code,
+      subtitle: name,
+      href: `/stock/${encodeURIComponent(code)}`,
+      terms: [code, name].map(normalize),
+    });
+  }
+
+  const unnamed = new Set(Array.from(tickers).filter((t) => !Object.hasOwn(stockNames, t)));
+  for (const code of Array.from(unnamed).sort()) {
+    items.push({
+      kind: "stock",
+      title: code,
+      href: `/stock/${encodeURIComponent(code)}`,
+      terms: [normalize(code)],
+    });
+  }
+
+  return items;
+}
+
+function score(item: SearchItem, q: string) {
+  let best = 0;
+  for (const t of item.terms) {
+    if (t === q) return 3;
+    if (t.startsWith(q)) best = Math.max(best, 2);
+    else if (t.includes(q)) best = Math.max(best, 1);
+  }
+  return best;
+}
+
+export function searchItems(index: SearchItem[], query: string, limit = 20): SearchItem[] {
+  const q = normalize(query);
+  if (!q) return [];
+  return index
+    .map((item) => ({ item, s: score(item, q) }))
+    .filter((x) => x.s > 0)
+    .sort((a, b) => b.s - a.s || KIND_ORDER[a.item.kind] - KIND_ORDER[b.item.kind])
+    .slice(0, limit)
+    .map((x) => x.item);
+}
@@ -0,0 +1,86 @@
+/** =========================
+ * factor-platform-database 資料檔型別
+ * ========================= */
+
+// data/manifest.json（version / asof 為選填，用來判斷快取是否過期）
+export type ManifestResp = { factors: string[]; version?: string; asof?: string; updated_at?: string };
+
+// strategy_data/manifest.json
+export type StrategyManifestEntry = {
+  name: string;
+  display_name?: string;
+  category?: string;
+  has_returns: boolean;
+  has_holdings: boolean;
+};
+
+export type StrategyManifestResp = {
+  strategies: StrategyManifestEntry[];
+  generated_at?: string;
+};
+
+// data/returns/<factor>.json、strategy_data/returns/<strategy>.json
+export type ReturnsResp = {
+  name?: string;
+  factor?: string;
+  dates: string[];
+  ret: number[];
+};
+
+// data/holdings/<factor>.json、strategy_data/holdings/<strategy>.json
+export type HoldingsResp = {
+  factor: string;
+  asof?: string | null;
+  months: string[];
+  holdings: Record<string, string[]>;
+  /** 檔案以 {ticker, weight} 提供的月份才有；每月合計為 1，其餘月份視為等權重 */
+  weights?: Record<string, Record<string, number>>;
+};
+
+// data/global_wave/<factor>.json
+export type GlobalWaveResp = {
+  factor: string;
+  summary: {
+    trough: { n_events: number; n_6m: number; n_12m: number; avg_6m: number | null; avg_12m: number | null };
+    peak: { n_events: number; n_6m: number; n_12m: number; avg_6m: number | null; avg_12m: number | null };
+  };
+  events?: { type: "trough" | "peak"; date: string; r_6m: number | null; r_12m: number | null }[];
+};
+
+// data/heatmap/heatmap_12m.json
+export type HeatmapResp = {
+  months: string[];
+  factors?: string[];
+  ranked_factors: string[][];
+  ranked_returns: (number | null)[][];
+};
+
+// data/factors/<factor>.json（已知欄位之外的內容原樣保留）
+export type MetaResp = {
+  display_name?: string;
+  category?: string;
+  rebalance?: string;
+  universe?: string;
+  holding_rule?: string;
+  params?: Record<string, unknown>;
+  [key: string]: unknown;
+};
+
+// data/stock_names.json
+export type StockNamesResp = Record<string, string>;
+
+// data/stock_sectors.json（選填）：代號 → 產業（證交所產業分類）
+export type StockSectorsResp = Record<string, string>;
+
+// data/risk_free.json（選填）：年化無風險利率（小數），利率變動日之間沿用前值
+export type RiskFreeResp = {
+  name?: string;
+  dates: string[];
+  rate: number[];
+};
+
+// 首頁「近 N 日」表格（由 returns 衍生）
+export type RecentTable = {
+  dates: string[];
+  rows: Record<string, (number | null)[]>;
+};
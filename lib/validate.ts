@@ -0,0 +1,506 @@
+/** =========================
+ * JSON 資料檔的 runtime 驗證
+ * =========================
+ * 每個 validator 都回傳「可安全使用的值」加上問題清單：
+ * - 能修正的（長度不一致、非數值報酬、未知月份…）會修正後記為 issue
+ * - 結構根本不對（不是物件、缺 dates 陣列…）才丟出 SchemaError
+ */
+import type {
+  GlobalWaveResp,
+  HeatmapResp,
+  HoldingsResp,
+  ManifestResp,
+  MetaResp,
+  RecentTable,
+  ReturnsResp,
+  RiskFreeResp,
+  StockNamesResp,
+  StockSectorsResp,
+  StrategyManifestEntry,
+  StrategyManifestResp,
+} from "./types";
+
+export type SchemaIssue = {
+  path: string;
+  message: string;
+};
+
+export type Validated<T> = {
+  value: T;
+  issues: SchemaIssue[];
+};
+
+export class SchemaError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(message: string, issues: SchemaIssue[] = []) {
+    super(message);
+    this.name = "SchemaError";
+    this.issues = issues;
+  }
+}
+
+// 同一類問題最多列出幾筆，其餘只計數
+const MAX_EXAMPLES = 5;
+
+type Obj = Record<string, unknown>;
+
+function isObject(x: unknown): x is Obj {
+  return typeof x === "object" && x !== null && !Array.isArray(x);
+}
+
+function requireObject(raw: unknown, what: string): Obj {
+  if (!isObject(raw)) throw new SchemaError(`${what} 不是 JSON 物件`, [{ path: "$", message: "預期為物件" }]);
+  return raw;
+}
+
+function requireArray(o: Obj, key: string, what: string): unknown[] {
+  const v = o[key];
+  if (!Array.isArray(v)) {
+    throw new SchemaError(`${what} 缺少 ${key} 陣列`, [{ path: key, message: "預期為陣列" }]);
+  }
+  return v;
+}
+
+function toNumber(x: unknown): number | null {
+  if (typeof x === "number") return Number.isFinite(x) ? x : null;
+  if (typeof x === "string" && x.trim() !== "") {
+    const n = Number(x);
+    return Number.isFinite(n) ? n : null;
+  }
+  return null;
+}
+
+function toNullableNumber(x: unknown): number | null | undefined {
+  if (x === null) return null;
+  if (x === undefined) return undefined;
+  return toNumber(x) ?? undefined;
+}
+
+/** 把同類問題合併成一筆：「共 N 筆…，例如 a、b、c」 */
+function summarize(issues: SchemaIssue[], path: string, label: string, examples: string[]) {
+  if (!examples.length) return;
+  const shown = examples.slice(0, MAX_EXAMPLES).join("、");
+  const more = examples.length > MAX_EXAMPLES ? " …" : "";
+  issues.push({ path, message: `${label}共 ${examples.length} 筆：${shown}${more}` });
+}
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}/;
+const MONTH_RE = /^\d{4}-\d{2}$/;
+
+// === data/manifest.json ===
+export function validateManifest(raw: unknown): Validated<ManifestResp> {
+  const o = requireObject(raw, "manifest");
+  const issues: SchemaIssue[] = [];
+  const list = requireArray(o, "factors", "manifest");
+
+  const bad = list.filter((x) => typeof x !== "string" || !x.trim());
+  summarize(issues, "factors", "非字串或空白的因子名稱", bad.map((x) => JSON.stringify(x)));
+
+  const factors = list.filter((x): x is string => typeof x === "string" && x.trim().length > 0);
+  const value: ManifestResp = { factors };
+  for (const key of ["version", "asof", "updated_at"] as const) {
+    if (o[key] !== undefined && o[key] !== null) value[key] = String(o[key]);
+  }
+  return { value, issues };
+}
+
+// === strategy_data/manifest.json ===
+export function validateStrategyManifest(raw: unknown): Validated<StrategyManifestResp> {
+  const o = requireObject(raw, "strategy manifest");
+  const issues: SchemaIssue[] = [];
+  const list = requireArray(o, "strategies", "strategy manifest");
+
+  const strategies: StrategyManifestEntry[] = [];
+  const bad: string[] = [];
+  const seen = new Set<string>();
+
+  list.forEach((e, i) => {
+    // 允許直接寫字串，視為 returns / holdings 都有
+    const item = typeof e === "string" ? { name: e } : e;
+    if (!isObject(item) || typeof item.name !== "string" || !item.name.trim()) {
+      bad.push(`#${i}`);
+      return;
+    }
+    if (seen.has(item.name)) {
+      issues.push({ path: `strategies[${i}]`, message: `重複的策略 ${item.name}，已略過` });
+      return;
+    }
+    seen.add(item.name);
+
+    const entry: StrategyManifestEntry = {
+      name: item.name,
+      has_returns: item.has_returns !== false,
+      has_holdings: item.has_holdings !== false,
+    };
+    if (typeof item.display_name === "string" && item.display_name) entry.display_name = item.display_name;
+    if (typeof item.category === "string" && item.category) entry.category = item.category;
+    strategies.push(entry);
+  });
+  summarize(issues, "strategies", "缺少 name 的項目（已略過）", bad);
+
+  const value: StrategyManifestResp = { strategies };
+  if (typeof o.generated_at === "string") value.generated_at = o.generated_at;
+  return { value, issues };
+}
+
+// === returns ===
+export function validateReturns(raw: unknown, fallbackName: string): Validated<ReturnsResp> {
+  const o = requireObject(raw, "returns");
+  const issues: SchemaIssue[] = [];
+  const rawDates = requireArray(o, "dates", "returns");
+  const rawRet = requireArray(o, "ret", "returns");
+
+  if (rawDates.length !== rawRet.length) {
+    issues.push({
+      path: "dates/ret",
+      message: `dates (${rawDates.length}) 與 ret (${rawRet.length}) 長度不一致，已截斷為 ${Math.min(rawDates.length, rawRet.length)} 筆`,
+    });
+  }
+
+  const n = Math.min(rawDates.length, rawRet.length);
+  const dates: string[] = [];
+  const ret: number[] = [];
+  const badDates: string[] = [];
+  const badRet: string[] = [];
+  let unsorted = 0;
+
+  for (let i = 0; i < n; i++) {
+    const d = rawDates[i];
+    if (typeof d !== "string" || !DATE_RE.test(d)) {
+      badDates.push(`#${i} ${JSON.stringify(d)}`);
+      continue;
+    }
+    const r = toNumber(rawRet[i]);
+    if (r === null) {
+      badRet.push(`${d} ${JSON.stringify(rawRet[i])}`);
+      continue;
+    }
+    if (dates.length && d <= dates[dates.length - 1]) unsorted++;
+    dates.push(d);
+    ret.push(r);
+  }
+
+  summarize(issues, "dates", "無效日期（已略過）", badDates);
+  summarize(issues, "ret", "非數值報酬（已略過）", badRet);
+  if (unsorted) issues.push({ path: "dates", message: `日期未遞增或重複 ${unsorted} 處` });
+
+  const name = typeof o.name === "string" ? o.name : undefined;
+  const factor = typeof o.factor === "string" ? o.factor : undefined;
+
+  return {
+    value: {
+      name: name || factor || fallbackName,
+      factor: factor || name || fallbackName,
+      dates,
+      ret,
+    },
+    issues,
+  };
+}
+
+// === holdings ===
+export function validateHoldings(raw: unknown, fallbackName: string): Validated<HoldingsResp> {
+  const o = requireObject(raw, "holdings");
+  const issues: SchemaIssue[] = [];
+
+  if (!isObject(o.holdings)) throw new SchemaError("holdings 缺少 holdings 物件", [{ path: "holdings", message: "預期為物件" }]);
+  const rawHoldings = o.holdings;
+
+  const holdings: Record<string, string[]> = {};
+  const weights: Record<string, Record<string, number>> = {};
+  const badTickers: string[] = [];
+  const badWeights: string[] = [];
+  for (const [m, list] of Object.entries(rawHoldings)) {
+    if (!Array.isArray(list)) {
+      issues.push({ path: `holdings.${m}`, message: "預期為陣列，已視為空持股" });
+      holdings[m] = [];
+      continue;
+    }
+    const out: string[] = [];
+    // 每月可以是代號陣列，或 {ticker, weight} 陣列
+    const w: Record<string, number> = {};
+    let weighted = false;
+    let missingWeight = false;
+    for (const t of list) {
+      if (typeof t === "string" && t.trim()) {
+        out.push(t.trim());
+        missingWeight = true;
+      } else if (typeof t === "number") {
+        out.push(String(t));
+        missingWeight = true;
+      } else if (isObject(t) && (typeof t.ticker === "string" || typeof t.ticker === "number")) {
+        const ticker = String(t.ticker).trim();
+        const wt = toNumber(t.weight);
+        out.push(ticker);
+        weighted = true;
+        if (wt === null || wt < 0) {
+          badWeights.push(`${m} ${ticker}`);
+          missingWeight = true;
+        } else {
+          w[ticker] = (w[ticker] ?? 0) + wt;
+        }
+      } else badTickers.push(`${m} ${JSON.stringify(t)}`);
+    }
+    holdings[m] = out;
+
+    const total = Object.values(w).reduce((a, b) => a + b, 0);
+    if (weighted && !missingWeight && total > 0) {
+      weights[m] = {};
+      for (const [k, v] of Object.entries(w)) if (v > 0) weights[m][k] = v / total;
+    } else if (weighted) {
+      issues.push({ path: `holdings.${m}`, message: "部分代號缺少權重或權重合計為 0，此月改用等權重" });
+    }
+  }
+  summarize(issues, "holdings", "無效股票代號（已略過）", badTickers);
+  summarize(issues, "holdings", "無效權重", badWeights);
+
+  let months: string[];
+  if (Array.isArray(o.months)) {
+    months = o.months.filter((x): x is string => typeof x === "string");
+    if (months.length !== o.months.length) issues.push({ path: "months", message: "months 含非字串項目，已略過" });
+  } else {
+    months = Object.keys(holdings).sort();
+    issues.push({ path: "months", message: "缺少 months，改用 holdings 的月份" });
+  }
+
+  const monthSet = new Set(months);
+  summarize(
+    issues,
+    "holdings",
+    "holdings 有但 months 未列出的月份",
+    Object.keys(holdings).filter((m) => !monthSet.has(m))
+  );
+  summarize(
+    issues,
+    "months",
+    "months 列出但沒有持股的月份",
+    months.filter((m) => !(m in holdings))
+  );
+  summarize(
+    issues,
+    "months",
+    "格式不是 YYYY-MM 的月份",
+    months.filter((m) => !MONTH_RE.test(m))
+  );
+
+  return {
+    value: {
+      factor: typeof o.factor === "string" && o.factor ? o.factor : fallbackName,
+      asof: typeof o.asof === "string" ? o.asof : null,
+      months,
+      holdings,
+      ...(Object.keys(weights).length ? { weights } : {}),
+    },
+    issues,
+  };
+}
+
+// === global_wave ===
+type WaveSummary = GlobalWaveResp["summary"]["trough"];
+
+function validateWaveSummary(raw: unknown, path: string, issues: SchemaIssue[]): WaveSummary {
+  const empty: WaveSummary = { n_events: 0, n_6m: 0, n_12m: 0, avg_6m: null, avg_12m: null };
+  if (!isObject(raw)) {
+    issues.push({ path, message: "缺少摘要，視為無事件" });
+    return empty;
+  }
+  const out = { ...empty };
+  for (const key of ["n_events", "n_6m", "n_12m"] as const) {
+    const v = toNumber(raw[key]);
+    if (v === null) issues.push({ path: `${path}.${key}`, message: "預期為數字" });
+    else out[key] = v;
+  }
+  for (const key of ["avg_6m", "avg_12m"] as const) {
+    const v = toNullableNumber(raw[key]);
+    if (v === undefined) issues.push({ path: `${path}.${key}`, message: "預期為數字或 null" });
+    else out[key] = v;
+  }
+  return out;
+}
+
+export function validateGlobalWave(raw: unknown, fallbackName: string): Validated<GlobalWaveResp> {
+  const o = requireObject(raw, "global_wave");
+  const issues: SchemaIssue[] = [];
+  const summary = isObject(o.summary) ? o.summary : {};
+  if (!isObject(o.summary)) issues.push({ path: "summary", message: "缺少 summary 物件" });
+
+  const value: GlobalWaveResp = {
+    factor: typeof o.factor === "string" ? o.factor : fallbackName,
+    summary: {
+      trough: validateWaveSummary(summary.trough, "summary.trough", issues),
+      peak: validateWaveSummary(summary.peak, "summary.peak", issues),
+    },
+  };
+
+  if (o.events !== undefined) {
+    if (!Array.isArray(o.events)) {
+      issues.push({ path: "events", message: "預期為陣列，已忽略" });
+    } else {
+      const bad: string[] = [];
+      value.events = [];
+      o.events.forEach((e, i) => {
+        if (!isObject(e) || (e.type !== "trough" && e.type !== "peak") || typeof e.date !== "string") {
+          bad.push(`#${i}`);
+          return;
+        }
+        value.events!.push({
+          type: e.type,
+          date: e.date,
+          r_6m: toNullableNumber(e.r_6m) ?? null,
+          r_12m: toNullableNumber(e.r_12m) ?? null,
+        });
+      });
+      summarize(issues, "events", "無效事件（已略過）", bad);
+    }
+  }
+
+  return { value, issues };
+}
+
+// === heatmap ===
+export function validateHeatmap(raw: unknown): Validated<HeatmapResp> {
+  const o = requireObject(raw, "heatmap");
+  const issues: SchemaIssue[] = [];
+  const months = requireArray(o, "months", "heatmap").map(String);
+  const rankedFactors = requireArray(o, "ranked_factors", "heatmap");
+  const rankedReturns = Array.isArray(o.ranked_returns) ? o.ranked_returns : [];
+  if (!Array.isArray(o.ranked_returns)) issues.push({ path: "ranked_returns", message: "缺少 ranked_returns，報酬顯示為 NA" });
+
+  if (rankedFactors.length !== months.length) {
+    issues.push({ path: "ranked_factors", message: `欄數 ${rankedFactors.length} 與 months ${months.length} 不一致` });
+  }
+
+  const width = Array.isArray(rankedFactors[0]) ? rankedFactors[0].length : 0;
+  const ragged: string[] = [];
+  const nonNumeric: string[] = [];
+
+  const ranked_factors = months.map((m, col) => {
+    const row = rankedFactors[col];
+    if (!Array.isArray(row) || row.length !== width) ragged.push(m);
+    return Array.from({ length: width }, (_, i) => (Array.isArray(row) && typeof row[i] === "string" ? row[i] : ""));
+  });
+
+  const ranked_returns = months.map((m, col) => {
+    const row = rankedReturns[col];
+    return Array.from({ length: width }, (_, i) => {
+      const v = Array.isArray(row) ? row[i] : null;
+      if (v === null || v === undefined) return null;
+      const n = toNumber(v);
+      if (n === null) nonNumeric.push(`${m}#${i + 1}`);
+      return n;
+    });
+  });
+
+  summarize(issues, "ranked_factors", "排名數量與第一個月不同的月份", ragged);
+  summarize(issues, "ranked_returns", "非數值報酬", nonNumeric);
+
+  const value: HeatmapResp = { months, ranked_factors, ranked_returns };
+  if (Array.isArray(o.factors)) value.factors = o.factors.filter((x): x is string => typeof x === "string");
+  return { value, issues };
+}
+
+// === data/factors/<factor>.json ===
+export function validateMeta(raw: unknown): Validated<MetaResp> {
+  const o = requireObject(raw, "factor meta");
+  const issues: SchemaIssue[] = [];
+  const value: MetaResp = { ...o };
+
+  for (const key of ["display_name", "category", "rebalance", "universe", "holding_rule"]) {
+    const v = o[key];
+    if (v === undefined || v === null || typeof v === "string") continue;
+    issues.push({ path: key, message: "預期為字串，已轉為文字顯示" });
+    value[key] = typeof v === "object" ? JSON.stringify(v) : String(v);
+  }
+  if (o.params !== undefined && !isObject(o.params)) {
+    issues.push({ path: "params", message: "預期為物件，已忽略" });
+    delete value.params;
+  }
+  return { value, issues };
+}
+
+// === data/stock_names.json ===
+export function validateStockNames(raw: unknown): Validated<StockNamesResp> {
+  const o = requireObject(raw, "stock_names");
+  const issues: SchemaIssue[] = [];
+  const value: StockNamesResp = {};
+  const bad: string[] = [];
+  for (const [code, name] of Object.entries(o)) {
+    if (typeof name === "string") value[code] = name;
+    else bad.push(code);
+  }
+  summarize(issues, "$", "名稱不是字串的代號", bad);
+  return { value, issues };
+}
+
+// === data/stock_sectors.json ===
+// 值可以是產業字串，或 { sector / industry: "..." } 物件
+export function validateStockSectors(raw: unknown): Validated<StockSectorsResp> {
+  const o = requireObject(raw, "stock_sectors");
+  const issues: SchemaIssue[] = [];
+  const value: StockSectorsResp = {};
+  const bad: string[] = [];
+  for (const [code, v] of Object.entries(o)) {
+    const rec = v && typeof v === "object" ? (v as Record<string, unknown>) : null;
+    const sector = typeof v === "string" ? v : (rec?.sector ?? rec?.industry);
+    if (typeof sector === "string" && sector.trim()) value[code] = sector.trim();
+    else bad.push(code);
+  }
+  summarize(issues, "$", "沒有產業的代號（視為未分類）", bad);
+  return { value, issues };
+}
+
+// === data/risk_free.json ===
+// rate 為年化利率；unit: "percent" 或數值明顯是百分比（例如 1.6）時除以 100
+export function validateRiskFree(raw: unknown): Validated<RiskFreeResp> {
+  const o = requireObject(raw, "risk_free");
+  const issues: SchemaIssue[] = [];
+  const rawDates = requireArray(o, "dates", "risk_free");
+  const rawRate = requireArray(o, "rate", "risk_free");
+
+  if (rawDates.length !== rawRate.length) {
+    issues.push({
+      path: "dates/rate",
+      message: `dates (${rawDates.length}) 與 rate (${rawRate.length}) 長度不一致，已截斷為 ${Math.min(rawDates.length, rawRate.length)} 筆`,
+    });
+  }
+
+  const pairs: [string, number][] = [];
+  const bad: string[] = [];
+  for (let i = 0; i < Math.min(rawDates.length, rawRate.length); i++) {
+    const d = rawDates[i];
+    const r = toNumber(rawRate[i]);
+    if (typeof d !== "string" || !DATE_RE.test(d) || r === null) bad.push(`#${i} ${JSON.stringify(d)}`);
+    else pairs.push([d.slice(0, 10), r]);
+  }
+  summarize(issues, "dates", "無效日期或利率（已略過）", bad);
+  if (!pairs.length) throw new SchemaError("risk_free 沒有可用的利率", [{ path: "rate", message: "全部無效" }]);
+
+  pairs.sort((a, b) => a[0].localeCompare(b[0]));
+
+  let scale = 1;
+  if (o.unit === "percent") scale = 0.01;
+  else if (o.unit !== "decimal" && pairs.some(([, r]) => Math.abs(r) > 1)) {
+    scale = 0.01;
+    issues.push({ path: "rate", message: "未標示 unit 且數值大於 1，視為百分比" });
+  }
+
+  const value: RiskFreeResp = { dates: pairs.map(([d]) => d), rate: pairs.map(([, r]) => r * scale) };
+  if (typeof o.name === "string") value.name = o.name;
+  return { value, issues };
+}
+
+// === 首頁衍生表格 (近 N 日報酬 / 累積) ===
+export function validateRecentTable(table: RecentTable): Validated<RecentTable> {
+  const issues: SchemaIssue[] = [];
+  const n = table.dates.length;
+  const rows: Record<string, (number | null)[]> = {};
+  for (const [factor, row] of Object.entries(table.rows)) {
+    if (row.length !== n) issues.push({ path: `rows.${factor}`, message: `長度 ${row.length} 與日期數 ${n} 不一致` });
+    rows[factor] = Array.from({ length: n }, (_, i) => {
+      const v = row[i];
+      return v === null || v === undefined || !Number.isFinite(v) ? null : v;
+    });
+  }
+  return { value: { dates: table.dates, rows }, issues };
+}
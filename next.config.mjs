@@ -6,6 +6,8 @@ const nextConfig = {
   images: { unoptimized: true },
   basePath: `/${repo}`,
   assetPrefix: `/${repo}/`,
+  // 讓 client 端 (例如 local 資料來源) 知道部署路徑
+  env: { NEXT_PUBLIC_BASE_PATH: `/${repo}` },
 };
 
 export default nextConfig;
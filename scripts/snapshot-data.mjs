@@ -0,0 +1,174 @@
+#!/usr/bin/env node
+/**
+ * 建立資料快照：把 factor-platform-database 需要的 JSON 複製到 public/factor-data，
+ * 讓 `next build` 的靜態匯出 (out/) 不再依賴 raw.githubusercontent.com。
+ *
+ * 用法：
+ *   node scripts/snapshot-data.mjs            只建立快照
+ *   node scripts/snapshot-data.mjs --build    建立快照後以 local 資料來源執行 next build
+ *
+ * 環境變數：
+ *   DATA_SNAPSHOT_FROM     本機 factor-platform-database 路徑（未設定則從 GitHub 下載）
+ *   DATA_SNAPSHOT_VERSION  快照版本字串（預設為建立時間）
+ *   NEXT_PUBLIC_DATA_GH_OWNER / NEXT_PUBLIC_DATA_GH_REPO / NEXT_PUBLIC_DATA_GH_BRANCH
+ */
+import { spawnSync } from "node:child_process";
+import { mkdir, readdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const ROOT = path.resolve(path.dirname(fileURLToPath(import.meta.url)), "..");
+const OUT_DIR = path.join(ROOT, "public", "factor-data");
+
+const owner = process.env.NEXT_PUBLIC_DATA_GH_OWNER || "alfred0630";
+const repo = process.env.NEXT_PUBLIC_DATA_GH_REPO || "factor-platform-database";
+const branch = process.env.NEXT_PUBLIC_DATA_GH_BRANCH || "main";
+const localRoot = process.env.DATA_SNAPSHOT_FROM ? path.resolve(process.env.DATA_SNAPSHOT_FROM) : null;
+const version = process.env.DATA_SNAPSHOT_VERSION || `snapshot-${new Date().toISOString().replace(/[:.]/g, "-")}`;
+
+const RAW_BASE = `https://raw.githubusercontent.com/${owner}/${repo}/${branch}`;
+const API_BASE = `https://api.github.com/repos/${owner}/${repo}/contents`;
+
+// === 來源：本機目錄或 GitHub ===
+async function readSourceText(rel) {
+  if (localRoot) return readFile(path.join(localRoot, rel), "utf8");
+
+  const r = await fetch(`${RAW_BASE}/${rel.split("/").map(encodeURIComponent).join("/")}`);
+  if (!r.ok) throw new Error(`fetch failed ${r.status}: ${rel}`);
+  return r.text();
+}
+
+async function listSourceJson(folder) {
+  if (localRoot) {
+    const entries = await readdir(path.join(localRoot, folder), { withFileTypes: true }).catch(() => []);
+    return entries.filter((e) => e.isFile() && e.name.toLowerCase().endsWith(".json")).map((e) => e.name);
+  }
+
+  const headers = process.env.GITHUB_TOKEN ? { Authorization: `Bearer ${process.env.GITHUB_TOKEN}` } : {};
+  const r = await fetch(`${API_BASE}/${folder}?ref=${branch}`, { headers });
+  if (r.status === 404) return [];
+  if (!r.ok) throw new Error(`list failed ${r.status}: ${folder}`);
+  const files = await r.json();
+  return files.filter((f) => f.type === "file" && f.name.toLowerCase().endsWith(".json")).map((f) => f.name);
+}
+
+// === 複製 ===
+const copied = [];
+const missing = [];
+
+async function copyFile(rel, { required = false, transform } = {}) {
+  let text;
+  try {
+    text = await readSourceText(rel);
+    JSON.parse(text); // 只複製合法 JSON
+  } catch (e) {
+    if (required) throw new Error(`required file missing or invalid: ${rel}\n${e.message}`);
+    missing.push(rel);
+    return null;
+  }
+
+  if (transform) text = JSON.stringify(transform(JSON.parse(text)));
+
+  const dest = path.join(OUT_DIR, rel);
+  await mkdir(path.dirname(dest), { recursive: true });
+  await writeFile(dest, text);
+  copied.push(rel);
+  return JSON.parse(text);
+}
+
+async function runPool(items, size, fn) {
+  const queue = [...items];
+  const workers = Array.from({ length: Math.min(size, queue.length) }, async () => {
+    while (queue.length) await fn(queue.shift());
+  });
+  await Promise.all(workers);
+}
+
+// 資料庫沒有 strategy_data/manifest.json 時，依資料夾內容產生一份
+async function writeStrategyManifest(returnFiles, holdingFiles) {
+  const stem = (f) => f.replace(/\.json$/i, "");
+  const returnSet = new Set(returnFiles.map(stem));
+  const holdingSet = new Set(holdingFiles.map(stem));
+  const names = Array.from(new Set([...returnSet, ...holdingSet])).sort((a, b) => a.localeCompare(b));
+
+  const strategies = [];
+  for (const name of names) {
+    const entry = { name, has_returns: returnSet.has(name), has_holdings: holdingSet.has(name) };
+    // returns 檔內若有不同的 name 欄位，拿來當顯示名稱
+    if (entry.has_returns) {
+      const text = await readFile(path.join(OUT_DIR, "strategy_data", "returns", `${name}.json`), "utf8").catch(() => null);
+      const label = text ? JSON.parse(text).name : null;
+      if (typeof label === "string" && label && label !== name) entry.display_name = label;
+    }
+    strategies.push(entry);
+  }
+
+  const rel = "strategy_data/manifest.json";
+  await mkdir(path.join(OUT_DIR, "strategy_data"), { recursive: true });
+  await writeFile(path.join(OUT_DIR, rel), JSON.stringify({ strategies, generated_at: new Date().toISOString() }, null, 2));
+  copied.push(rel);
+  console.log(`[snapshot] generated ${rel} (${strategies.length} strategies)`);
+}
+
+async function main() {
+  console.log(`[snapshot] source: ${localRoot ?? `${owner}/${repo}@${branch}`}`);
+  await rm(OUT_DIR, { recursive: true, force: true });
+  await mkdir(OUT_DIR, { recursive: true });
+
+  // manifest 沒有版本欄位時寫入快照版本，瀏覽器端快取才會跟著快照更新
+  const manifest = await copyFile("data/manifest.json", {
+    required: true,
+    transform: (m) => ({ ...m, version: m.version ?? version }),
+  });
+  const factors = (manifest.factors || []).filter((x) => typeof x === "string" && x.trim());
+
+  const factorFiles = factors.flatMap((f) => [
+    `data/returns/${f}.json`,
+    `data/holdings/${f}.json`,
+    `data/factors/${f}.json`,
+    `data/global_wave/${f}.json`,
+  ]);
+
+  const [strategyReturns, strategyHoldings] = await Promise.all([
+    listSourceJson("strategy_data/returns"),
+    listSourceJson("strategy_data/holdings"),
+  ]);
+  const strategyFiles = [
+    ...strategyReturns.map((n) => `strategy_data/returns/${n}`),
+    ...strategyHoldings.map((n) => `strategy_data/holdings/${n}`),
+  ];
+
+  const others = ["data/heatmap/heatmap_12m.json", "data/stock_names.json", "data/stock_sectors.json", "data/risk_free.json"];
+
+  await runPool([...factorFiles, ...strategyFiles, ...others], localRoot ? 16 : 8, (rel) => copyFile(rel));
+
+  const strategyManifest = await copyFile("strategy_data/manifest.json");
+  if (!strategyManifest) await writeStrategyManifest(strategyReturns, strategyHoldings);
+
+  const index = {
+    version: manifest.version ?? version,
+    created_at: new Date().toISOString(),
+    source: localRoot ? `local:${localRoot}` : `github:${owner}/${repo}@${branch}`,
+    files: [...copied].sort(),
+  };
+  await writeFile(path.join(OUT_DIR, "snapshot.json"), JSON.stringify(index, null, 2));
+
+  console.log(`[snapshot] ${index.files.length} files -> public/factor-data (version ${index.version})`);
+  if (missing.length) console.log(`[snapshot] skipped ${missing.length} optional files (not found)`);
+}
+
+main()
+  .then(() => {
+    if (!process.argv.includes("--build")) return;
+    const r = spawnSync("npx", ["next", "build"], {
+      cwd: ROOT,
+      stdio: "inherit",
+      shell: process.platform === "win32",
+      env: { ...process.env, NEXT_PUBLIC_DATA_SOURCE: "local" },
+    });
+    process.exit(r.status ?? 1);
+  })
+  .catch((e) => {
+    console.error(`[snapshot] failed: ${e.message}`);
+    process.exit(1);
+  });
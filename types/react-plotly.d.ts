@@ -5,6 +5,9 @@ declare module "react-plotly.js" {
   type PlotlyLayout = Record<string, any>;
   type PlotlyConfig = Record<string, any>;
 
+  // 點擊事件只用到被點到的資料點座標
+  export type PlotClickEvent = { points?: { x: unknown; y: unknown }[] };
+
   export interface PlotParams extends React.PropsWithChildren {
     data?: PlotlyFigure[];
     layout?: PlotlyLayout;
@@ -17,6 +20,7 @@ declare module "react-plotly.js" {
     onUpdate?: (...args: any[]) => void;
     onPurge?: (...args: any[]) => void;
     onError?: (...args: any[]) => void;
+    onClick?: (event: PlotClickEvent) => void;
     divId?: string;
     revision?: number;
     debug?: boolean;